@@ -2,9 +2,11 @@
  * Tests for jotai-state-tree
  */
 
-import { describe, it, expect, beforeEach, vi } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { atom, createStore } from "jotai";
 import {
   types,
+  type StandardSchemaV1,
   getSnapshot,
   applySnapshot,
   onSnapshot,
@@ -38,7 +40,26 @@ import {
   // Undo/Time travel
   createUndoManager,
   createTimeTravelManager,
+  setLivelinessChecking,
+  getLivelinessChecking,
+  transaction,
+  runInAction,
+  memo,
+  onLifecycleChange,
+  getNodeStore,
+  getPropertyAtom,
+  getViewAtom,
+  atomWithTree,
+  getGlobalStore,
+  resetGlobalStore,
+  resolveIdentifier,
+  registerReferenceResolver,
+  type IMiddlewareEvent,
+  type IJsonPatch,
+  type IAnyType,
+  nullable,
 } from "../index";
+import { getStateTreeNode } from "../tree";
 
 describe("Primitive Types", () => {
   it("should create string type", () => {
@@ -403,300 +424,2347 @@ describe("Snapshots", () => {
 
     disposer();
   });
-});
 
-describe("Tree Navigation", () => {
-  it("should get root", () => {
-    const Child = types.model("Child", {
-      name: types.string,
-    });
+  describe("subtree listeners", () => {
+    const Todo = types
+      .model("SubtreeTodo", {
+        title: types.string,
+      })
+      .actions((self) => ({
+        setTitle(title: string) {
+          self.title = title;
+        },
+      }));
 
-    const Parent = types.model("Parent", {
-      child: Child,
+    const Store = types
+      .model("SubtreeStore", {
+        todos: types.array(Todo),
+        filter: types.optional(types.string, "all"),
+      })
+      .actions((self) => ({
+        setFilter(filter: string) {
+          self.filter = filter;
+        },
+        addTodo(title: string) {
+          self.todos.push({ title });
+        },
+      }));
+
+    it("should notify every node on the changed path with its own snapshot", () => {
+      const store = Store.create({ todos: [{ title: "a" }, { title: "b" }] });
+      const calls: Array<[string, unknown]> = [];
+
+      onSnapshot(store, (s) => calls.push(["store", s]));
+      onSnapshot(store.todos, (s) => calls.push(["todos", s]));
+      onSnapshot(store.todos[1], (s) => calls.push(["todo1", s]));
+
+      store.todos[1].setTitle("c");
+
+      expect(calls).toEqual([
+        ["todo1", { title: "c" }],
+        ["todos", [{ title: "a" }, { title: "c" }]],
+        ["store", { todos: [{ title: "a" }, { title: "c" }], filter: "all" }],
+      ]);
     });
 
-    const parent = Parent.create({
-      child: { name: "child" },
+    it("should not notify nodes outside the changed path", () => {
+      const store = Store.create({ todos: [{ title: "a" }, { title: "b" }] });
+      const todos = vi.fn();
+      const first = vi.fn();
+      const root = vi.fn();
+
+      onSnapshot(store.todos, todos);
+      onSnapshot(store.todos[0], first);
+      onSnapshot(store, root);
+
+      store.setFilter("done");
+      store.todos[1].setTitle("c");
+
+      expect(first).not.toHaveBeenCalled();
+      expect(todos).toHaveBeenCalledTimes(1);
+      expect(root).toHaveBeenCalledTimes(2);
     });
 
-    const root = getRoot(parent.child);
-    expect(root).toBe(parent);
-  });
+    it("should keep snapshot identity for unchanged subtrees", () => {
+      const store = Store.create({ todos: [{ title: "a" }, { title: "b" }] });
+      const before = getSnapshot<any>(store);
+      expect(getSnapshot(store)).toBe(before);
 
-  it("should get parent", () => {
-    const Child = types.model("Child", {
-      name: types.string,
+      store.todos[1].setTitle("c");
+      const after = getSnapshot<any>(store);
+
+      expect(after).not.toBe(before);
+      expect(after.todos).not.toBe(before.todos);
+      expect(after.todos[0]).toBe(before.todos[0]);
+      expect(after.todos[1]).toEqual({ title: "c" });
+      expect(getSnapshot(store.todos[0])).toBe(before.todos[0]);
+      expect(before.todos[1]).toEqual({ title: "b" });
     });
 
-    const Parent = types.model("Parent", {
-      child: Child,
+    it("should invalidate cached snapshots on structural changes", () => {
+      const store = Store.create({ todos: [{ title: "a" }] });
+      const before = getSnapshot<any>(store);
+
+      store.setFilter("done");
+      const afterFilter = getSnapshot<any>(store);
+      expect(afterFilter.filter).toBe("done");
+      expect(afterFilter.todos).toBe(before.todos);
+
+      store.addTodo("b");
+      expect(getSnapshot<any>(store).todos).toEqual([{ title: "a" }, { title: "b" }]);
+
+      applySnapshot(store, { todos: [{ title: "a" }, { title: "b" }], filter: "all" });
+      expect(getSnapshot<any>(store).filter).toBe("all");
     });
 
-    const parent = Parent.create({
-      child: { name: "child" },
+    it("should return frozen snapshots", () => {
+      const store = Store.create({ todos: [{ title: "a" }] });
+      const snapshot = getSnapshot<any>(store);
+      expect(Object.isFrozen(snapshot)).toBe(true);
+      expect(Object.isFrozen(snapshot.todos)).toBe(true);
+      expect(Object.isFrozen(snapshot.todos[0])).toBe(true);
     });
 
-    const retrievedParent = getParent(parent.child);
-    expect(retrievedParent).toBe(parent);
+    it("should notify collection listeners about structural changes", () => {
+      const store = Store.create({ todos: [] });
+      const todos = vi.fn();
+      onSnapshot(store.todos, todos);
+
+      store.addTodo("a");
+
+      expect(todos).toHaveBeenLastCalledWith([{ title: "a" }]);
+    });
   });
 
-  it("should pass environment", () => {
-    const Model = types
-      .model("Model", {
-        name: types.string,
+  describe("reconciliation", () => {
+    const events: string[] = [];
+    const Todo = types
+      .model("Todo", {
+        id: types.identifier,
+        title: types.string,
       })
-      .actions((self) => ({
-        getApiUrl() {
-          const env = getEnv<{ apiUrl: string }>(self);
-          return env.apiUrl;
+      .afterCreate((self) => events.push(`create ${self.id}`))
+      .afterAttach((self) => events.push(`attach ${self.id}`))
+      .beforeDestroy((self) => events.push(`destroy ${self.id}`));
+    const Store = types.model("Store", {
+      todos: types.array(Todo),
+      byId: types.map(Todo),
+    });
+
+    beforeEach(() => {
+      events.length = 0;
+    });
+
+    it("should keep array items with a matching identifier", () => {
+      const store = Store.create({
+        todos: [
+          { id: "a", title: "A" },
+          { id: "b", title: "B" },
+          { id: "c", title: "C" },
+        ],
+      });
+      const [a, b, c] = store.todos;
+      events.length = 0;
+
+      applySnapshot(store, {
+        todos: [
+          { id: "c", title: "C" },
+          { id: "a", title: "A2" },
+          { id: "d", title: "D" },
+        ],
+        byId: {},
+      });
+
+      expect(store.todos[0]).toBe(c);
+      expect(store.todos[1]).toBe(a);
+      expect(a.title).toBe("A2");
+      expect(isAlive(a)).toBe(true);
+      expect(isAlive(b)).toBe(false);
+      expect(getPath(c)).toBe("/todos/0");
+      expect(events).toEqual(["create d", "destroy b", "attach d"]);
+      expect(getSnapshot(store.todos)).toEqual([
+        { id: "c", title: "C" },
+        { id: "a", title: "A2" },
+        { id: "d", title: "D" },
+      ]);
+    });
+
+    it("should replace array items whose identifier changed", () => {
+      const store = Store.create({ todos: [{ id: "a", title: "A" }] });
+      const a = store.todos[0];
+
+      applySnapshot(store.todos, [{ id: "b", title: "A" }]);
+
+      expect(store.todos[0]).not.toBe(a);
+      expect(isAlive(a)).toBe(false);
+      expect(store.todos[0].id).toBe("b");
+    });
+
+    it("should keep map entries with a matching identifier", () => {
+      const store = Store.create({
+        byId: { a: { id: "a", title: "A" }, b: { id: "b", title: "B" } },
+      });
+      const a = store.byId.get("a")!;
+      const b = store.byId.get("b")!;
+      events.length = 0;
+
+      applySnapshot(store.byId, {
+        a: { id: "a", title: "A2" },
+        c: { id: "c", title: "C" },
+      });
+
+      expect(store.byId.get("a")).toBe(a);
+      expect(a.title).toBe("A2");
+      expect(isAlive(b)).toBe(false);
+      expect(store.byId.has("b")).toBe(false);
+      expect(store.byId.get("c")!.title).toBe("C");
+      expect(events).toEqual(["create c", "destroy b", "attach c"]);
+    });
+
+    it("should undo array reorders without recreating items", () => {
+      const Sorted = Store.actions((self) => ({
+        sortByTitle() {
+          self.todos.sort((x, y) => x.title.localeCompare(y.title));
         },
       }));
+      const store = Sorted.create({
+        todos: [
+          { id: "b", title: "B" },
+          { id: "a", title: "A" },
+        ],
+      });
+      const [b, a] = store.todos;
+      const undoManager = createUndoManager(store);
 
-    const instance = Model.create(
-      { name: "test" },
-      { apiUrl: "http://localhost" },
-    );
-    expect(instance.getApiUrl()).toBe("http://localhost");
+      store.sortByTitle();
+      undoManager.undo();
+
+      expect(store.todos[0]).toBe(b);
+      expect(store.todos[1]).toBe(a);
+      expect(isAlive(a) && isAlive(b)).toBe(true);
+    });
   });
 });
 
-describe("Lifecycle", () => {
-  it("should track alive status", () => {
-    const Model = types.model("Model", {
-      name: types.string,
+describe("Per-tree Stores", () => {
+  const Todo = types
+    .model("StoreTodo", { title: types.string })
+    .actions((self) => ({
+      setTitle(title: string) {
+        self.title = title;
+      },
+    }));
+  const TodoList = types
+    .model("StoreTodoList", {
+      todos: types.array(Todo),
+      tags: types.map(types.string),
+    })
+    .actions((self) => ({
+      add(todo: typeof Todo.Type) {
+        self.todos.push(todo);
+      },
+    }));
+
+  it("should use the global store by default", () => {
+    const list = TodoList.create({ todos: [{ title: "a" }] });
+    expect(getNodeStore(list)).toBe(getGlobalStore());
+    expect(getNodeStore(list.todos[0])).toBe(getGlobalStore());
+  });
+
+  it("should keep trees in different stores independent", () => {
+    const storeA = createStore();
+    const storeB = createStore();
+    const a = TodoList.create({ todos: [{ title: "a" }] }, undefined, {
+      store: storeA,
+    });
+    const b = TodoList.create({ todos: [{ title: "b" }] }, undefined, {
+      store: storeB,
     });
 
-    const instance = Model.create({ name: "test" });
-    expect(isAlive(instance)).toBe(true);
+    expect(getNodeStore(a)).toBe(storeA);
+    expect(getNodeStore(a.todos)).toBe(storeA);
+    expect(getNodeStore(a.todos[0])).toBe(storeA);
+    expect(getNodeStore(b.tags)).toBe(storeB);
 
-    destroy(instance);
-    expect(isAlive(instance)).toBe(false);
+    a.todos[0].setTitle("a2");
+    expect(a.todos[0].title).toBe("a2");
+    expect(b.todos[0].title).toBe("b");
   });
 
-  it("should clone instances", () => {
-    const Model = types.model("Model", {
-      name: types.string,
-      count: types.number,
+  it("should not be affected by swapping the global store", () => {
+    const list = TodoList.create({ todos: [{ title: "a" }] }, undefined, {
+      store: createStore(),
     });
+    list.todos[0].setTitle("changed");
 
-    const original = Model.create({ name: "test", count: 42 });
-    const cloned = clone(original);
+    resetGlobalStore();
 
-    expect(cloned.name).toBe("test");
-    expect(cloned.count).toBe(42);
-    expect(cloned).not.toBe(original);
+    expect(list.todos[0].title).toBe("changed");
+    expect(getSnapshot(list)).toEqual({ todos: [{ title: "changed" }], tags: {} });
+  });
+
+  it("should move attached nodes into the store of their new tree", () => {
+    const store = createStore();
+    const list = TodoList.create({}, undefined, { store });
+    const todo = Todo.create({ title: "a" });
+    unprotect(todo);
+    todo.title = "b";
+
+    list.add(todo);
+
+    expect(getNodeStore(todo)).toBe(store);
+    expect(list.todos[0].title).toBe("b");
+    expect(getSnapshot(list.todos)).toEqual([{ title: "b" }]);
+  });
+
+  it("should clone into the same store", () => {
+    const store = createStore();
+    const list = TodoList.create({ todos: [{ title: "a" }] }, undefined, {
+      store,
+    });
+    expect(getNodeStore(clone(list))).toBe(store);
+    expect(getNodeStore(clone(TodoList.create({})))).toBe(getGlobalStore());
+  });
+
+  it("should pass the store through wrapper types", () => {
+    const store = createStore();
+    const wrappers = [
+      types.optional(TodoList, {}),
+      types.maybe(TodoList),
+      types.maybeNull(TodoList),
+      types.late(() => TodoList),
+      types.union(TodoList, types.number),
+      types.refinement(TodoList, () => true),
+      types.snapshotProcessor(TodoList, {}),
+      nullable(TodoList),
+    ];
+
+    for (const wrapper of wrappers) {
+      const list = (wrapper as IAnyType).create(
+        { todos: [], tags: {} },
+        undefined,
+        { store },
+      );
+      expect(getNodeStore(list)).toBe(store);
+    }
+    expect(
+      getNodeStore(
+        types.optional(TodoList, {}).create(undefined, undefined, { store }),
+      ),
+    ).toBe(store);
   });
 });
 
-describe("Async Actions (flow)", () => {
-  it("should handle async actions", async () => {
-    const delay = (ms: number) =>
-      new Promise((resolve) => setTimeout(resolve, ms));
+describe("Computed Views", () => {
+  const Item = types.model("ViewItem", {
+    name: types.string,
+    price: types.number,
+  });
 
-    const Model = types
-      .model("Model", {
-        data: types.maybeNull(types.string),
-        loading: types.optional(types.boolean, false),
+  const createCart = () => {
+    const calls = { total: 0, summary: 0 };
+    const Cart = types
+      .model("ViewCart", {
+        owner: types.string,
+        items: types.array(Item),
       })
+      .volatile(() => ({ discount: 0 }))
+      .views((self) => ({
+        get total() {
+          calls.total++;
+          const sum = self.items.reduce((acc, item) => acc + item.price, 0);
+          return sum - self.discount;
+        },
+      }))
+      .views((self) => ({
+        get summary() {
+          calls.summary++;
+          return `${self.owner}: ${self.total}`;
+        },
+      }))
       .actions((self) => ({
-        setData(data: string | null) {
-          self.data = data;
+        setOwner(owner: string) {
+          self.owner = owner;
         },
-        setLoading(loading: boolean) {
-          self.loading = loading;
+        setDiscount(discount: number) {
+          self.discount = discount;
+        },
+        addItem(name: string, price: number) {
+          self.items.push({ name, price });
+        },
+        setPrice(index: number, price: number) {
+          self.items[index].price = price;
+        },
+      }));
+    return { Cart, calls };
+  };
+
+  it("should cache view values until a dependency changes", () => {
+    const { Cart, calls } = createCart();
+    const cart = Cart.create({
+      owner: "ann",
+      items: [{ name: "a", price: 1 }],
+    });
+
+    expect(cart.total).toBe(1);
+    expect(cart.total).toBe(1);
+    expect(calls.total).toBe(1);
+
+    cart.addItem("b", 2);
+    expect(cart.total).toBe(3);
+    expect(calls.total).toBe(2);
+
+    cart.setPrice(0, 5);
+    expect(cart.total).toBe(7);
+    expect(calls.total).toBe(3);
+
+    cart.setDiscount(1);
+    expect(cart.total).toBe(6);
+    expect(calls.total).toBe(4);
+  });
+
+  it("should recompute views reading snapshots when the subtree changes", () => {
+    const Doc = types
+      .model("SnapshotViewDoc", {
+        a: types.number,
+        items: types.array(Item),
+      })
+      .views((self) => ({
+        get json() {
+          return JSON.stringify(getSnapshot(self));
+        },
+        get itemsJson() {
+          return JSON.stringify(getSnapshot(self.items));
         },
       }))
       .actions((self) => ({
-        fetchData: flow(function* () {
-          self.setLoading(true);
-          yield delay(10);
-          self.setData("fetched data");
-          self.setLoading(false);
+        setA(a: number) {
+          self.a = a;
+        },
+        setPrice(price: number) {
+          self.items[0].price = price;
+        },
+        addItem() {
+          self.items.push({ name: "b", price: 2 });
+        },
+      }));
+    const doc = Doc.create({ a: 1, items: [{ name: "a", price: 1 }] });
+
+    expect(JSON.parse(doc.json).a).toBe(1);
+    doc.setA(2);
+    expect(JSON.parse(doc.json).a).toBe(2);
+
+    expect(JSON.parse(doc.itemsJson)).toEqual([{ name: "a", price: 1 }]);
+    doc.setPrice(5);
+    expect(JSON.parse(doc.json).items[0].price).toBe(5);
+    expect(JSON.parse(doc.itemsJson)[0].price).toBe(5);
+    doc.addItem();
+    expect(JSON.parse(doc.itemsJson)).toHaveLength(2);
+    expect(JSON.parse(doc.json).items).toHaveLength(2);
+  });
+
+  it("should only recompute views whose dependencies changed", () => {
+    const { Cart, calls } = createCart();
+    const cart = Cart.create({
+      owner: "ann",
+      items: [{ name: "a", price: 1 }],
+    });
+
+    expect(cart.summary).toBe("ann: 1");
+    cart.setOwner("bob");
+    expect(cart.summary).toBe("bob: 1");
+    expect(calls.summary).toBe(2);
+    expect(calls.total).toBe(1);
+
+    cart.setPrice(0, 2);
+    expect(cart.summary).toBe("bob: 2");
+    expect(calls.total).toBe(2);
+  });
+
+  it("should keep the previous value when equals returns true", () => {
+    const Store = types
+      .model("EqualsViewStore", { values: types.array(types.number) })
+      .views(
+        (self) => ({
+          get sorted() {
+            return [...self.values].sort((a, b) => a - b);
+          },
         }),
+        {
+          equals: (previous, next) =>
+            JSON.stringify(previous) === JSON.stringify(next),
+        },
+      )
+      .actions((self) => ({
+        reverse() {
+          self.values.replace([...self.values].reverse());
+        },
+        push(value: number) {
+          self.values.push(value);
+        },
       }));
+    const store = Store.create({ values: [1, 2, 3] });
 
-    const instance = Model.create({});
-    expect(instance.loading).toBe(false);
-    expect(instance.data).toBeNull();
+    const sorted = store.sorted;
+    store.reverse();
+    expect(store.sorted).toBe(sorted);
 
-    await instance.fetchData();
+    store.push(4);
+    expect(store.sorted).not.toBe(sorted);
+    expect(store.sorted).toEqual([1, 2, 3, 4]);
+  });
 
-    expect(instance.loading).toBe(false);
-    expect(instance.data).toBe("fetched data");
+  it("should recompute keepAlive views eagerly", () => {
+    let calls = 0;
+    const Counter = types
+      .model("KeepAliveCounter", { count: types.number })
+      .views(
+        (self) => ({
+          get double() {
+            calls++;
+            return self.count * 2;
+          },
+        }),
+        { keepAlive: true },
+      )
+      .actions((self) => ({
+        increment() {
+          self.count++;
+        },
+      }));
+    const counter = Counter.create({ count: 1 });
+
+    expect(counter.double).toBe(2);
+    counter.increment();
+    expect(calls).toBe(2);
+    expect(counter.double).toBe(4);
+    expect(calls).toBe(2);
+
+    destroy(counter);
+    expect(calls).toBe(2);
+  });
+
+  it("should track replaced complex properties", () => {
+    const Profile = types.model("ViewProfile", { name: types.string });
+    const User = types
+      .model("ViewUser", { profile: Profile })
+      .views((self) => ({
+        get name() {
+          return self.profile.name;
+        },
+      }))
+      .actions((self) => ({
+        setProfile(name: string) {
+          self.profile = Profile.create({ name });
+        },
+      }));
+    const user = User.create({ profile: { name: "a" } });
+
+    expect(user.name).toBe("a");
+    user.setProfile("b");
+    expect(user.name).toBe("b");
+  });
+
+  it("should isolate view caches per instance", () => {
+    const { Cart } = createCart();
+    const a = Cart.create({ owner: "a", items: [{ name: "x", price: 1 }] });
+    const b = Cart.create({ owner: "b", items: [{ name: "y", price: 2 }] });
+
+    expect(a.total).toBe(1);
+    expect(b.total).toBe(2);
+    a.setPrice(0, 10);
+    expect(a.total).toBe(10);
+    expect(b.total).toBe(2);
+  });
+  describe("memo", () => {
+    const Todo = types
+      .model("MemoTodo", { title: types.string, status: types.string })
+      .actions((self) => ({
+        setStatus(status: string) {
+          self.status = status;
+        },
+      }));
+
+    const createList = (maxSize?: number) => {
+      const calls: string[] = [];
+      const List = types
+        .model("MemoTodoList", { todos: types.array(Todo) })
+        .views((self) => ({
+          byStatus: memo(
+            (status: string) => {
+              calls.push(status);
+              return self.todos.filter((todo) => todo.status === status);
+            },
+            { maxSize },
+          ),
+        }))
+        .actions((self) => ({
+          add(title: string, status: string) {
+            self.todos.push({ title, status });
+          },
+        }));
+      const list = List.create({
+        todos: [
+          { title: "a", status: "open" },
+          { title: "b", status: "done" },
+        ],
+      });
+      return { list, calls };
+    };
+
+    it("should cache results per argument tuple", () => {
+      const { list, calls } = createList();
+
+      const open = list.byStatus("open");
+      expect(open.map((todo) => todo.title)).toEqual(["a"]);
+      expect(list.byStatus("open")).toBe(open);
+      expect(list.byStatus("done").map((todo) => todo.title)).toEqual(["b"]);
+      expect(list.byStatus("done")).toBe(list.byStatus("done"));
+      expect(calls).toEqual(["open", "done"]);
+    });
+
+    it("should invalidate when a dependency changes", () => {
+      const { list, calls } = createList();
+
+      list.byStatus("open");
+      list.add("c", "open");
+      expect(list.byStatus("open").map((todo) => todo.title)).toEqual([
+        "a",
+        "c",
+      ]);
+
+      list.todos[1].setStatus("open");
+      expect(list.byStatus("open")).toHaveLength(3);
+      expect(calls).toEqual(["open", "open", "open"]);
+    });
+
+    it("should evict least recently used entries beyond maxSize", () => {
+      const { list, calls } = createList(1);
+
+      list.byStatus("open");
+      list.byStatus("done");
+      list.byStatus("done");
+      list.byStatus("open");
+      expect(calls).toEqual(["open", "done", "open"]);
+    });
+
+    it("should key object arguments by identity", () => {
+      const calls: unknown[] = [];
+      const Store = types
+        .model("MemoObjectStore", { todos: types.array(Todo) })
+        .views((self) => ({
+          indexOf: memo((todo: typeof Todo.Type) => {
+            calls.push(todo);
+            return self.todos.indexOf(todo);
+          }),
+        }));
+      const store = Store.create({
+        todos: [
+          { title: "a", status: "open" },
+          { title: "b", status: "open" },
+        ],
+      });
+      const [a, b] = store.todos;
+
+      expect(store.indexOf(a)).toBe(0);
+      expect(store.indexOf(b)).toBe(1);
+      expect(store.indexOf(a)).toBe(0);
+      expect(calls).toEqual([a, b]);
+    });
   });
 });
 
-describe("Union Types", () => {
-  it("should handle union of literals", () => {
-    const Status = types.union(
-      types.literal("pending"),
-      types.literal("active"),
-      types.literal("done"),
-    );
+describe("Property & View Atoms", () => {
+  const Todo = types
+    .model("AtomTodo", {
+      title: types.string,
+      done: types.optional(types.boolean, false),
+      tags: types.array(types.string),
+    })
+    .views((self) => ({
+      get label() {
+        return `${self.done ? "x" : " "} ${self.title}`;
+      },
+    }))
+    .actions((self) => ({
+      setTitle(title: string) {
+        self.title = title;
+      },
+    }));
 
-    const Task = types.model("Task", {
-      status: Status,
+  it("should read and subscribe to property atoms", () => {
+    const todo = Todo.create({ title: "a" });
+    const store = getNodeStore(todo);
+    const titleAtom = getPropertyAtom(todo, "title");
+    const values: string[] = [];
+
+    expect(store.get(titleAtom)).toBe("a");
+    expect(getPropertyAtom(todo, "title")).toBe(titleAtom);
+
+    const unsubscribe = store.sub(titleAtom, () => {
+      values.push(store.get(titleAtom));
     });
+    todo.setTitle("b");
+    unsubscribe();
+
+    expect(values).toEqual(["b"]);
+  });
+
+  it("should write through the instance", () => {
+    const todo = Todo.create({ title: "a" });
+    const store = getNodeStore(todo);
+    const titleAtom = getPropertyAtom(todo, "title");
+
+    expect(() => store.set(titleAtom, "b")).toThrow(/protected/);
+
+    unprotect(todo);
+    const patches: unknown[] = [];
+    onPatch(todo, (patch) => patches.push(patch));
+    store.set(titleAtom, "b");
+
+    expect(todo.title).toBe("b");
+    expect(patches).toEqual([{ op: "replace", path: "/title", value: "b" }]);
+  });
+
+  it("should compose with derived atoms", () => {
+    const todo = Todo.create({ title: "a" });
+    const store = getNodeStore(todo);
+    const summaryAtom = atom(
+      (get) =>
+        `${get(getPropertyAtom(todo, "title"))}:${get(getPropertyAtom(todo, "done"))}`,
+    );
+
+    expect(store.get(summaryAtom)).toBe("a:false");
+    todo.setTitle("b");
+    expect(store.get(summaryAtom)).toBe("b:false");
+
+    unprotect(todo);
+    todo.done = true;
+    expect(store.get(summaryAtom)).toBe("b:true");
+  });
+
+  it("should expose computed views as atoms", () => {
+    const todo = Todo.create({ title: "a" });
+    const store = getNodeStore(todo);
+    const labelAtom = getViewAtom(todo, "label");
+    let notified = 0;
+
+    expect(store.get(labelAtom)).toBe("  a");
+    const unsubscribe = store.sub(labelAtom, () => notified++);
+    todo.setTitle("b");
+    unsubscribe();
+
+    expect(notified).toBe(1);
+    expect(store.get(labelAtom)).toBe("  b");
+    expect(todo.label).toBe("  b");
+  });
+
+  it("should throw for unknown keys", () => {
+    const todo = Todo.create({ title: "a" });
+    expect(() => getPropertyAtom(todo, "setTitle")).toThrow(
+      "[jotai-state-tree] 'setTitle' is not a property of 'AtomTodo'",
+    );
+    expect(() => getViewAtom(todo, "title")).toThrow(
+      "[jotai-state-tree] 'title' is not a computed view of 'AtomTodo'",
+    );
+  });
+
+  describe("atomWithTree", () => {
+    it("should create one tree per store, each in its own store", () => {
+      const todoAtom = atomWithTree(Todo, { title: "a" });
+      const storeA = createStore();
+      const storeB = createStore();
+
+      const a = storeA.get(todoAtom);
+      const b = storeB.get(todoAtom);
+
+      expect(a).not.toBe(b);
+      expect(storeA.get(todoAtom)).toBe(a);
+      expect(getNodeStore(a)).not.toBe(storeA);
+      expect(getNodeStore(a)).not.toBe(getNodeStore(b));
+
+      a.setTitle("changed");
+      expect(b.title).toBe("a");
+      expect(getNodeStore(a).get(getPropertyAtom(a, "title"))).toBe(
+        "changed",
+      );
+    });
+
+    it("should compose property and view atoms in the reading store", () => {
+      const todoAtom = atomWithTree(Todo, { title: "a" });
+      const store = createStore();
+      const titleAtom = atom((get) =>
+        get(getPropertyAtom(get(todoAtom), "title")),
+      );
+      const labelAtom = atom((get) => get(getViewAtom(get(todoAtom), "label")));
+      const titles: string[] = [];
+
+      const unsubscribe = store.sub(titleAtom, () => {
+        titles.push(store.get(titleAtom));
+      });
+      const unsubscribeLabel = store.sub(labelAtom, () => {});
+      const todo = store.get(todoAtom);
+      expect(store.get(titleAtom)).toBe("a");
+
+      todo.setTitle("b");
+      expect(store.get(titleAtom)).toBe("b");
+      expect(store.get(labelAtom)).toBe("  b");
+      expect(titles).toEqual(["b"]);
+
+      unprotect(todo);
+      store.set(getPropertyAtom(todo, "title"), "c");
+      expect(todo.title).toBe("c");
+      expect(store.get(labelAtom)).toBe("  c");
+      unsubscribe();
+      unsubscribeLabel();
+    });
+
+    it("should not write to the reading store while reading", () => {
+      const todoAtom = atomWithTree(Todo, { title: "a" });
+      const store = createStore();
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      try {
+        store.get(todoAtom);
+        expect(warn).not.toHaveBeenCalled();
+      } finally {
+        warn.mockRestore();
+      }
+    });
+
+    it("should destroy the tree on unmount and recreate it on next read", () => {
+      const todoAtom = atomWithTree(Todo, { title: "a" });
+      const store = createStore();
+
+      const unsubscribe = store.sub(todoAtom, () => {});
+      const first = store.get(todoAtom);
+      first.setTitle("b");
+      unsubscribe();
+
+      expect(isAlive(first)).toBe(false);
+      const second = store.get(todoAtom);
+      expect(second).not.toBe(first);
+      expect(second.title).toBe("a");
+      expect(getNodeStore(second)).not.toBe(getNodeStore(first));
+    });
+
+    it("should create wrapped roots in the tree's own store", () => {
+      const todoAtom = atomWithTree(
+        types.late(() => Todo),
+        { title: "a" },
+      );
+      const store = createStore();
+
+      const todo = store.get(todoAtom);
+      todo.setTitle("b");
+      expect(getNodeStore(todo).get(getPropertyAtom(todo, "title"))).toBe("b");
+    });
+  });
+});
+
+describe("Tree Navigation", () => {
+  it("should get root", () => {
+    const Child = types.model("Child", {
+      name: types.string,
+    });
+
+    const Parent = types.model("Parent", {
+      child: Child,
+    });
+
+    const parent = Parent.create({
+      child: { name: "child" },
+    });
+
+    const root = getRoot(parent.child);
+    expect(root).toBe(parent);
+  });
+
+  it("should get parent", () => {
+    const Child = types.model("Child", {
+      name: types.string,
+    });
+
+    const Parent = types.model("Parent", {
+      child: Child,
+    });
+
+    const parent = Parent.create({
+      child: { name: "child" },
+    });
+
+    const retrievedParent = getParent(parent.child);
+    expect(retrievedParent).toBe(parent);
+  });
+
+  it("should pass environment", () => {
+    const Model = types
+      .model("Model", {
+        name: types.string,
+      })
+      .actions((self) => ({
+        getApiUrl() {
+          const env = getEnv<{ apiUrl: string }>(self);
+          return env.apiUrl;
+        },
+      }));
+
+    const instance = Model.create(
+      { name: "test" },
+      { apiUrl: "http://localhost" },
+    );
+    expect(instance.getApiUrl()).toBe("http://localhost");
+  });
+});
+
+describe("Lifecycle", () => {
+  it("should track alive status", () => {
+    const Model = types.model("Model", {
+      name: types.string,
+    });
+
+    const instance = Model.create({ name: "test" });
+    expect(isAlive(instance)).toBe(true);
+
+    destroy(instance);
+    expect(isAlive(instance)).toBe(false);
+  });
+
+  it("should clone instances", () => {
+    const Model = types.model("Model", {
+      name: types.string,
+      count: types.number,
+    });
+
+    const original = Model.create({ name: "test", count: 42 });
+    const cloned = clone(original);
+
+    expect(cloned.name).toBe("test");
+    expect(cloned.count).toBe(42);
+    expect(cloned).not.toBe(original);
+  });
+});
+
+describe("Liveliness Checking", () => {
+  const Todo = types
+    .model("LivelyTodo", {
+      id: types.identifier,
+      title: types.string,
+    })
+    .views((self) => ({
+      get upperTitle() {
+        return self.title.toUpperCase();
+      },
+    }))
+    .actions((self) => ({
+      setTitle(title: string) {
+        self.title = title;
+      },
+    }));
+
+  const Store = types
+    .model("LivelyStore", {
+      todos: types.array(Todo),
+      tags: types.map(types.string),
+      selected: types.maybe(types.reference(Todo)),
+    })
+    .actions((self) => ({
+      removeFirst() {
+        self.todos.splice(0, 1);
+      },
+    }));
+
+  afterEach(() => {
+    setLivelinessChecking("warn");
+    vi.restoreAllMocks();
+  });
+
+  it("should warn by default when reading a destroyed node", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const store = Store.create({ todos: [{ id: "1", title: "a" }] });
+    const todo = store.todos[0];
+
+    store.removeFirst();
+
+    expect(getLivelinessChecking()).toBe("warn");
+    expect(todo.title).toBe("a");
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain(
+      "(Object type: 'LivelyTodo', Path upon death: '/todos/0', Subpath: 'title', Operation: 'read')",
+    );
+  });
+
+  it("should throw on reads, writes, views and actions in error mode", () => {
+    setLivelinessChecking("error");
+    const store = Store.create({ todos: [{ id: "1", title: "a" }] });
+    const todo = store.todos[0];
+    store.removeFirst();
+
+    expect(() => todo.title).toThrow(/Operation: 'read'/);
+    expect(() => todo.upperTitle).toThrow(/Subpath: 'upperTitle', Operation: 'view'/);
+    expect(() => todo.setTitle("b")).toThrow(/Subpath: 'setTitle', Operation: 'action'/);
+
+    const detached = Todo.create({ id: "2", title: "a" });
+    unprotect(detached);
+    destroy(detached);
+    expect(() => {
+      detached.title = "b";
+    }).toThrow(/Path upon death: '\/', Subpath: 'title', Operation: 'write'/);
+  });
+
+  it("should check arrays and maps of destroyed trees", () => {
+    setLivelinessChecking("error");
+    const store = Store.create({ todos: [], tags: { a: "x" } });
+    const { todos, tags } = store;
+    destroy(store);
+
+    expect(() => todos.push(Todo.create({ id: "1", title: "a" }))).toThrow(
+      /Object type: 'array<LivelyTodo>', Path upon death: '\/todos', Subpath: '', Operation: 'push'/,
+    );
+    expect(() => tags.get("a")).toThrow(/Subpath: 'a', Operation: 'read'/);
+    expect(() => tags.set("b", "y")).toThrow(/Operation: 'set'/);
+  });
+
+  it("should check reads of arrays and maps of destroyed trees", () => {
+    setLivelinessChecking("error");
+    const store = Store.create({
+      todos: [{ id: "1", title: "a" }],
+      tags: { a: "x" },
+    });
+    const { todos, tags } = store;
+    destroy(store);
+
+    expect(() => todos[0]).toThrow(/Subpath: '0', Operation: 'read'/);
+    expect(() => todos.length).toThrow(/Subpath: 'length', Operation: 'read'/);
+    expect(() => todos.map((todo) => todo.id)).toThrow(/Operation: 'read'/);
+    expect(() => [...todos]).toThrow(/Operation: 'read'/);
+    expect(() => tags.has("a")).toThrow(/Subpath: 'a', Operation: 'read'/);
+    expect(() => tags.size).toThrow(/Subpath: 'size', Operation: 'read'/);
+    expect(() => [...tags.keys()]).toThrow(/Subpath: 'keys'/);
+    expect(() => [...tags.values()]).toThrow(/Subpath: 'values'/);
+    expect(() => [...tags]).toThrow(/Subpath: 'entries'/);
+  });
+
+  it("should not treat Object.prototype keys as members", () => {
+    const Counter = types
+      .model("LivelyCounter", {})
+      .volatile(() => ({ count: 0 }));
+    const counter = Counter.create({});
+
+    expect("count" in counter).toBe(true);
+    expect("constructor" in counter).toBe(false);
+    expect("hasOwnProperty" in counter).toBe(false);
+    expect((counter as any).toString).toBeUndefined();
+  });
+
+  it("should check references owned by destroyed trees", () => {
+    setLivelinessChecking("error");
+    const store = Store.create({ todos: [{ id: "1", title: "a" }], selected: "1" });
+    const selected = store.selected!;
+    expect(selected.title).toBe("a");
+
+    destroy(store);
+    expect(() => selected.title).toThrow(/Operation: 'read'/);
+  });
+
+  it("should stay silent in ignore mode", () => {
+    setLivelinessChecking("ignore");
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const store = Store.create({ todos: [{ id: "1", title: "a" }] });
+    const todo = store.todos[0];
+    store.removeFirst();
+
+    expect(todo.title).toBe("a");
+    expect(todo.upperTitle).toBe("A");
+    expect(warn).not.toHaveBeenCalled();
+  });
+});
+
+describe("Async Actions (flow)", () => {
+  it("should handle async actions", async () => {
+    const delay = (ms: number) =>
+      new Promise((resolve) => setTimeout(resolve, ms));
+
+    const Model = types
+      .model("Model", {
+        data: types.maybeNull(types.string),
+        loading: types.optional(types.boolean, false),
+      })
+      .actions((self) => ({
+        setData(data: string | null) {
+          self.data = data;
+        },
+        setLoading(loading: boolean) {
+          self.loading = loading;
+        },
+      }))
+      .actions((self) => ({
+        fetchData: flow(function* () {
+          self.setLoading(true);
+          yield delay(10);
+          self.setData("fetched data");
+          self.setLoading(false);
+        }),
+      }));
+
+    const instance = Model.create({});
+    expect(instance.loading).toBe(false);
+    expect(instance.data).toBeNull();
+
+    await instance.fetchData();
+
+    expect(instance.loading).toBe(false);
+    expect(instance.data).toBe("fetched data");
+  });
+
+  const Loader = types
+    .model("Loader", {
+      value: types.optional(types.string, ""),
+    })
+    .actions((self) => ({
+      setValue(value: string) {
+        self.value = value;
+      },
+    }))
+    .actions((self) => ({
+      load: flow(function* (input: string) {
+        const result = (yield Promise.resolve(input.toUpperCase())) as string;
+        self.setValue(result);
+        return result;
+      }),
+      fail: flow(function* () {
+        yield Promise.resolve();
+        throw new Error("boom");
+      }),
+      recover: flow(function* () {
+        try {
+          yield Promise.reject(new Error("nope"));
+        } catch (e) {
+          self.setValue((e as Error).message);
+        }
+      }),
+    }));
+
+  it("should emit flow middleware events with shared ids", async () => {
+    const loader = Loader.create({});
+    const events: IMiddlewareEvent[] = [];
+
+    addMiddleware(loader, (call, next) => {
+      events.push(call);
+      return next(call);
+    });
+
+    const result = await loader.load("abc");
+    expect(result).toBe("ABC");
+    expect(loader.value).toBe("ABC");
+
+    const flowEvents = events.filter((e) => e.name === "load");
+    expect(flowEvents.map((e) => e.type)).toEqual([
+      "action",
+      "flow_spawn",
+      "flow_resume",
+      "flow_resume",
+      "flow_return",
+    ]);
+
+    const [action, spawn, ...steps] = flowEvents;
+    expect(spawn.parentId).toBe(action.id);
+    expect(spawn.rootId).toBe(action.rootId);
+    for (const step of steps) {
+      expect(step.id).toBe(spawn.id);
+      expect(step.parentId).toBe(action.id);
+    }
+
+    // Actions invoked while the flow resumes are children of the flow
+    const setValue = events.find((e) => e.name === "setValue")!;
+    expect(setValue.parentId).toBe(spawn.id);
+    expect(setValue.rootId).toBe(action.rootId);
+  });
+
+  it("should emit flow_throw when the generator throws", async () => {
+    const loader = Loader.create({});
+    const eventTypes: string[] = [];
+
+    addMiddleware(loader, (call, next) => {
+      eventTypes.push(call.type);
+      return next(call);
+    });
+
+    await expect(loader.fail()).rejects.toThrow("boom");
+    expect(eventTypes).toEqual([
+      "action",
+      "flow_spawn",
+      "flow_resume",
+      "flow_resume",
+      "flow_throw",
+    ]);
+  });
+
+  it("should emit flow_resume_error for rejected promises", async () => {
+    const loader = Loader.create({});
+    const eventTypes: string[] = [];
+
+    addMiddleware(loader, (call, next) => {
+      if (call.name === "recover") eventTypes.push(call.type);
+      return next(call);
+    });
+
+    await loader.recover();
+    expect(loader.value).toBe("nope");
+    expect(eventTypes).toContain("flow_resume_error");
+    expect(eventTypes[eventTypes.length - 1]).toBe("flow_return");
+  });
+
+  it("should report flow steps to recordActions without replaying them", async () => {
+    const loader = Loader.create({});
+    const recorder = recordActions(loader);
+
+    await loader.load("x");
+    recorder.stop();
+
+    const loadCalls = recorder.actions.filter((a) => a.name === "load");
+    expect(loadCalls.map((a) => a.type)).toContain("flow_resume");
+    expect(loadCalls.some((a) => a.type === "action")).toBe(true);
+
+    const other = Loader.create({});
+    recorder.replay(other);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(other.value).toBe("X");
+  });
+
+  it("should resolve with the abort value when spawning is aborted", async () => {
+    const loader = Loader.create({});
+
+    addMiddleware(loader, (call, next, abort) => {
+      if (call.type === "flow_spawn") {
+        return abort("cancelled");
+      }
+      return next(call);
+    });
+
+    await expect(loader.load("abc")).resolves.toBe("cancelled");
+    expect(loader.value).toBe("");
+  });
+
+  it("should settle with the abort value when the outcome is aborted", async () => {
+    const loader = Loader.create({});
+
+    addMiddleware(loader, (call, next, abort) => {
+      if (call.type === "flow_return") return abort("overridden");
+      if (call.type === "flow_throw") return abort("recovered");
+      return next(call);
+    });
+
+    await expect(loader.load("abc")).resolves.toBe("overridden");
+    await expect(loader.fail()).resolves.toBe("recovered");
+  });
+});
+
+describe("Union Types", () => {
+  it("should handle union of literals", () => {
+    const Status = types.union(
+      types.literal("pending"),
+      types.literal("active"),
+      types.literal("done"),
+    );
+
+    const Task = types.model("Task", {
+      status: Status,
+    });
+
+    const task = Task.create({ status: "pending" });
+    expect(task.status).toBe("pending");
+  });
+
+  it("should handle union of models", () => {
+    const Circle = types.model("Circle", {
+      type: types.literal("circle"),
+      radius: types.number,
+    });
+
+    const Square = types.model("Square", {
+      type: types.literal("square"),
+      side: types.number,
+    });
+
+    const Shape = types.union(Circle, Square);
+
+    const ShapeContainer = types.model("ShapeContainer", {
+      shape: Shape,
+    });
+
+    const circleContainer = ShapeContainer.create({
+      shape: { type: "circle", radius: 10 },
+    });
+
+    expect(circleContainer.shape.type).toBe("circle");
+    expect((circleContainer.shape as any).radius).toBe(10);
+  });
+});
+
+describe("References", () => {
+  it("should resolve references", () => {
+    const Author = types.model("Author", {
+      id: types.identifier,
+      name: types.string,
+    });
+
+    const Book = types.model("Book", {
+      id: types.identifier,
+      title: types.string,
+      authorId: types.string, // Store as string for now
+    });
+
+    const Store = types
+      .model("Store", {
+        authors: types.array(Author),
+        books: types.array(Book),
+      })
+      .views((self) => ({
+        getAuthorById(id: string) {
+          return self.authors.find((a) => a.id === id);
+        },
+      }));
+
+    const store = Store.create({
+      authors: [{ id: "a1", name: "John Doe" }],
+      books: [{ id: "b1", title: "Great Book", authorId: "a1" }],
+    });
+
+    const book = store.books[0];
+    const author = store.getAuthorById(book.authorId);
+
+    expect(author?.name).toBe("John Doe");
+  });
+
+  describe("tree-scoped identifiers", () => {
+    const Author = types
+      .model("ScopedAuthor", {
+        id: types.identifier,
+        name: types.string,
+      })
+      .actions((self) => ({
+        rename(name: string) {
+          self.name = name;
+        },
+      }));
+    const Library = types
+      .model("ScopedLibrary", {
+        authors: types.array(Author),
+        favorite: types.maybe(types.reference(Author)),
+      })
+      .actions((self) => ({
+        replaceFirst(snapshot: { id: string; name: string }) {
+          self.authors.splice(0, 1, snapshot);
+        },
+        addAuthor(snapshot: { id: string; name: string }) {
+          self.authors.push(snapshot);
+        },
+      }));
+
+    it("should resolve references within their own tree", () => {
+      const original = Library.create({
+        authors: [{ id: "a1", name: "Original" }],
+        favorite: "a1",
+      });
+      const draft = Library.create(getSnapshot(original));
+      draft.authors[0].rename("Draft");
+
+      expect(original.favorite?.name).toBe("Original");
+      expect(draft.favorite?.name).toBe("Draft");
+      expect(resolveIdentifier("ScopedAuthor", "a1", original)).toBe(
+        getStateTreeNode(original.authors[0]),
+      );
+      expect(resolveIdentifier("ScopedAuthor", "a1", draft)).toBe(
+        getStateTreeNode(draft.authors[0]),
+      );
+    });
+
+    it("should throw on duplicate identifiers within a tree", () => {
+      expect(() =>
+        Library.create({
+          authors: [
+            { id: "a1", name: "A" },
+            { id: "a1", name: "B" },
+          ],
+        }),
+      ).toThrow(
+        "[jotai-state-tree] Duplicate identifier 'a1' for type 'ScopedAuthor': identifiers must be unique within a tree (already used at '/0')",
+      );
+
+      const library = Library.create({ authors: [{ id: "a1", name: "A" }] });
+      expect(() => library.addAuthor({ id: "a1", name: "B" })).toThrow(
+        /Duplicate identifier 'a1'/,
+      );
+    });
+
+    it("should allow replacing a node with one reusing its identifier", () => {
+      const library = Library.create({ authors: [{ id: "a1", name: "A" }] });
+      library.replaceFirst({ id: "a1", name: "B" });
+      expect(resolveIdentifier("ScopedAuthor", "a1", library)).toBe(
+        getStateTreeNode(library.authors[0]),
+      );
+    });
+
+    it("should move identifiers with detached subtrees", () => {
+      const library = Library.create({ authors: [{ id: "a1", name: "A" }] });
+      const author = library.authors[0];
+      detach(author);
+
+      expect(resolveIdentifier("ScopedAuthor", "a1", library)).toBeUndefined();
+      expect(resolveIdentifier("ScopedAuthor", "a1", author)).toBe(
+        getStateTreeNode(author),
+      );
+    });
+
+    it("should resolve cross-tree references through registered resolvers", () => {
+      const authors = Library.create({ authors: [{ id: "a1", name: "A" }] });
+      const library = Library.create({ favorite: "a1" });
+
+      expect(() => library.favorite!.name).toThrow(
+        "[jotai-state-tree] Failed to resolve reference 'a1' to type 'ScopedAuthor'",
+      );
+
+      const dispose = registerReferenceResolver((identifier, type, parent) => {
+        expect(type).toBe(Author);
+        expect(parent).toBe(library);
+        return authors.authors.find((author) => author.id === identifier);
+      });
+      expect(library.favorite!.name).toBe("A");
+      dispose();
+    });
+
+    it("should resolve safe references lazily within their own tree", () => {
+      const Shelf = types
+        .model("ScopedShelf", {
+          pick: types.safeReference(Author),
+          authors: types.array(Author),
+        })
+        .actions((self) => ({
+          removeAuthors() {
+            self.authors.clear();
+          },
+        }));
+      const original = Shelf.create({
+        pick: "a1",
+        authors: [{ id: "a1", name: "Original" }],
+      });
+      const draft = Shelf.create(getSnapshot(original));
+      draft.authors[0].rename("Draft");
+
+      expect(original.pick?.name).toBe("Original");
+      expect(draft.pick?.name).toBe("Draft");
+      expect(getSnapshot(draft).pick).toBe("a1");
+
+      draft.removeAuthors();
+      expect(draft.pick).toBeUndefined();
+      expect(getSnapshot(draft).pick).toBe("a1");
+      expect(original.pick?.name).toBe("Original");
+    });
+
+    it("should follow references to targets replaced within the tree", () => {
+      const Shelf = types
+        .model("ReplacingShelf", {
+          pick: types.reference(Author),
+          authors: types.array(Author),
+        })
+        .actions((self) => ({
+          replaceAuthors(authors: Array<{ id: string; name: string }>) {
+            self.authors.replace(authors as any);
+          },
+        }));
+      const shelf = Shelf.create({
+        pick: "a1",
+        authors: [{ id: "a1", name: "Old" }],
+      });
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      try {
+        expect(shelf.pick.name).toBe("Old");
+        shelf.replaceAuthors([{ id: "a1", name: "New" }]);
+        expect(shelf.pick.name).toBe("New");
+        expect(warn).not.toHaveBeenCalled();
+
+        shelf.replaceAuthors([]);
+        expect(() => shelf.pick.name).toThrow(
+          "[jotai-state-tree] Failed to resolve reference 'a1'",
+        );
+      } finally {
+        warn.mockRestore();
+      }
+    });
+  });
+});
+
+describe("Late Types (Recursive)", () => {
+  it("should handle recursive types", () => {
+    const TreeNode = types.model("TreeNode", {
+      id: types.identifier,
+      value: types.string,
+      children: types.optional(types.array(types.late(() => TreeNode)), []),
+    });
+
+    const tree = TreeNode.create({
+      id: "1",
+      value: "root",
+      children: [
+        {
+          id: "2",
+          value: "child1",
+          children: [],
+        },
+        {
+          id: "3",
+          value: "child2",
+          children: [
+            {
+              id: "4",
+              value: "grandchild",
+              children: [],
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(tree.value).toBe("root");
+    expect(tree.children.length).toBe(2);
+    expect(tree.children[1].children[0].value).toBe("grandchild");
+  });
+});
+
+describe("Frozen Type", () => {
+  it("should handle frozen objects", () => {
+    const Model = types.model("Model", {
+      config: types.frozen<{ setting1: boolean; setting2: string }>(),
+    });
+
+    const instance = Model.create({
+      config: { setting1: true, setting2: "value" },
+    });
+
+    expect(instance.config.setting1).toBe(true);
+    expect(instance.config.setting2).toBe("value");
+
+    // Frozen objects should be immutable
+    expect(() => {
+      (instance.config as any).setting1 = false;
+    }).toThrow();
+  });
+});
+
+describe("Patches", () => {
+  it("should listen to patches", () => {
+    const Model = types
+      .model("Model", {
+        value: types.number,
+      })
+      .actions((self) => ({
+        setValue(v: number) {
+          self.value = v;
+        },
+      }));
+
+    const instance = Model.create({ value: 0 });
+    const patches: unknown[] = [];
+
+    const disposer = onPatch(instance, (patch) => {
+      patches.push(patch);
+    });
+
+    instance.setValue(10);
+
+    expect(patches.length).toBeGreaterThan(0);
+
+    disposer();
+  });
+
+  it("should apply patches", () => {
+    const Model = types.model("Model", {
+      value: types.number,
+      name: types.string,
+    });
+
+    const instance = Model.create({ value: 0, name: "test" });
+
+    applyPatch(instance, { op: "replace", path: "/value", value: 42 });
+    expect(instance.value).toBe(42);
+  });
+
+  describe("RFC 6902", () => {
+    const Item = types
+      .model("PatchItem", {
+        title: types.string,
+      })
+      .actions((self) => ({
+        setTitle(title: string) {
+          self.title = title;
+        },
+      }));
+
+    const Doc = types.model("PatchDoc", {
+      items: types.array(Item),
+      byKey: types.map(Item),
+      meta: types.frozen<Record<string, unknown>>(),
+    });
+
+    const create = () =>
+      Doc.create({
+        items: [{ title: "a" }, { title: "b" }],
+        byKey: { "a/b": { title: "slash" }, "c~d": { title: "tilde" } },
+        meta: { tags: ["x"] },
+      });
+
+    it("should add, replace and remove array items", () => {
+      const doc = create();
+
+      applyPatch(doc, [
+        { op: "add", path: "/items/-", value: { title: "c" } },
+        { op: "add", path: "/items/0", value: { title: "first" } },
+        { op: "replace", path: "/items/1/title", value: "A" },
+        { op: "remove", path: "/items/2" },
+      ]);
+
+      expect(doc.items.map((item) => item.title)).toEqual(["first", "A", "c"]);
+      expect(getSnapshot<any>(doc).items).toEqual([
+        { title: "first" },
+        { title: "A" },
+        { title: "c" },
+      ]);
+    });
+
+    it("should move and copy values", () => {
+      const doc = create();
+
+      applyPatch(doc, [
+        { op: "move", from: "/items/0", path: "/items/-" },
+        { op: "copy", from: "/items/0", path: "/byKey/copied" },
+      ]);
+
+      expect(doc.items.map((item) => item.title)).toEqual(["b", "a"]);
+      expect(doc.byKey.get("copied")!.title).toBe("b");
+      expect(() =>
+        applyPatch(doc, { op: "move", from: "/items", path: "/items/0" }),
+      ).toThrow(/Cannot move '\/items' into one of its own children/);
+    });
+
+    it("should fail atomically when a test op fails", () => {
+      const doc = create();
+      const before = getSnapshot(doc);
+
+      expect(() =>
+        applyPatch(doc, [
+          { op: "replace", path: "/items/0/title", value: "changed" },
+          { op: "test", path: "/items/1/title", value: "nope" },
+        ]),
+      ).toThrow("[jotai-state-tree] Patch test failed at '/items/1/title'");
+      expect(getSnapshot(doc)).toBe(before);
+
+      applyPatch(doc, [
+        { op: "test", path: "/items/1", value: { title: "b" } },
+        { op: "replace", path: "/items/0/title", value: "changed" },
+      ]);
+      expect(doc.items[0].title).toBe("changed");
+    });
+
+    it("should reject invalid paths without changing the tree", () => {
+      const doc = create();
+
+      expect(() =>
+        applyPatch(doc, [
+          { op: "add", path: "/items/-", value: { title: "c" } },
+          { op: "replace", path: "/items/5/title", value: "x" },
+        ]),
+      ).toThrow("[jotai-state-tree] Invalid patch path: /items/5/title");
+      expect(doc.items.length).toBe(2);
+    });
+
+    it("should roll back patches when a node rejects a later one", () => {
+      const doc = create();
+      const before = getSnapshot(doc);
+      const patches: IJsonPatch[] = [];
+      onPatch(doc, (patch) => patches.push(patch));
+
+      expect(() =>
+        applyPatch(doc, [
+          { op: "replace", path: "/items/0/title", value: "changed" },
+          { op: "add", path: "/nope", value: 1 },
+        ]),
+      ).toThrow();
+      expect(getSnapshot(doc)).toEqual(before);
+
+      expect(() =>
+        applyPatch(doc, [
+          { op: "add", path: "/items/-", value: { title: "c" } },
+          { op: "replace", path: "/items/0/title", value: 42 },
+        ]),
+      ).toThrow();
+      expect(getSnapshot(doc)).toEqual(before);
+      expect(doc.items[0].title).toBe("a");
+    });
+
+    it("should escape keys in node paths and emitted patches", () => {
+      const doc = create();
+      const slash = doc.byKey.get("a/b")!;
+      const patches: IJsonPatch[] = [];
+      onPatch(doc, (patch) => patches.push(patch));
+
+      expect(getPath(slash)).toBe("/byKey/a~1b");
+      expect(getPath(doc.byKey.get("c~d")!)).toBe("/byKey/c~0d");
+      expect(getPathParts(slash)).toEqual(["byKey", "a/b"]);
+
+      slash.setTitle("renamed");
+      expect(patches).toEqual([
+        { op: "replace", path: "/byKey/a~1b/title", value: "renamed" },
+      ]);
+
+      // Patches round-trip into another tree
+      const other = create();
+      applyPatch(other, patches);
+      expect(other.byKey.get("a/b")!.title).toBe("renamed");
+
+      applyPatch(doc, { op: "remove", path: "/byKey/c~0d" });
+      expect(doc.byKey.has("c~d")).toBe(false);
+    });
+
+    it("should patch inside frozen values", () => {
+      const doc = create();
+      const meta = doc.meta;
+
+      applyPatch(doc, [
+        { op: "add", path: "/meta/tags/-", value: "y" },
+        { op: "add", path: "/meta/owner", value: "me" },
+      ]);
+
+      expect(doc.meta).toEqual({ tags: ["x", "y"], owner: "me" });
+      expect(meta).toEqual({ tags: ["x"] });
+    });
+  });
+
+  describe("granular collection patches", () => {
+    const Todo = types
+      .model("GranularTodo", {
+        title: types.string,
+      })
+      .actions((self) => ({
+        setTitle(title: string) {
+          self.title = title;
+        },
+      }));
+
+    const Store = types
+      .model("GranularStore", {
+        todos: types.array(Todo),
+        users: types.map(types.string),
+      })
+      .actions((self) => ({
+        run(fn: () => void) {
+          fn();
+        },
+      }));
+
+    const create = () =>
+      Store.create({
+        todos: [{ title: "a" }, { title: "b" }],
+        users: { abc: "Ann" },
+      });
+
+    const collect = (store: ReturnType<typeof create>) => {
+      const calls: Array<[IJsonPatch, IJsonPatch]> = [];
+      onPatch(store, (patch, reversePatch) =>
+        calls.push([patch, reversePatch]),
+      );
+      return calls;
+    };
+
+    it("should emit add and remove patches for array changes", () => {
+      const store = create();
+      const calls = collect(store);
+
+      store.run(() => store.todos.push(Todo.create({ title: "c" })));
+      store.run(() => store.todos.splice(0, 1));
+
+      expect(calls).toEqual([
+        [
+          { op: "add", path: "/todos/2", value: { title: "c" } },
+          { op: "remove", path: "/todos/2" },
+        ],
+        [
+          { op: "remove", path: "/todos/0" },
+          {
+            op: "add",
+            path: "/todos/0",
+            value: { title: "a" },
+            oldValue: { title: "a" },
+          },
+        ],
+      ]);
+    });
+
+    it("should emit replace patches for overlapping splices", () => {
+      const store = create();
+      const calls = collect(store);
+
+      store.run(() => store.todos.splice(1, 1, Todo.create({ title: "x" })));
+
+      expect(calls).toEqual([
+        [
+          { op: "replace", path: "/todos/1", value: { title: "x" } },
+          {
+            op: "replace",
+            path: "/todos/1",
+            value: { title: "b" },
+            oldValue: { title: "b" },
+          },
+        ],
+      ]);
+    });
+
+    it("should emit add, replace and remove patches for map changes", () => {
+      const store = create();
+      const calls = collect(store);
+
+      store.run(() => store.users.set("a/b", "Bob"));
+      store.run(() => store.users.set("abc", "Anna"));
+      store.run(() => store.users.delete("abc"));
+
+      expect(calls.map(([patch]) => patch)).toEqual([
+        { op: "add", path: "/users/a~1b", value: "Bob" },
+        { op: "replace", path: "/users/abc", value: "Anna" },
+        { op: "remove", path: "/users/abc" },
+      ]);
+      expect(calls[2][1]).toEqual({
+        op: "add",
+        path: "/users/abc",
+        value: "Anna",
+        oldValue: "Anna",
+      });
+    });
+
+    it("should keep the nodes of unaffected children", () => {
+      const store = create();
+      const [first, second] = store.todos;
+
+      store.run(() => store.todos.push(Todo.create({ title: "c" })));
+      expect(store.todos[0]).toBe(first);
+      expect(getPath(first)).toBe("/todos/0");
+
+      store.run(() => store.todos.unshift(Todo.create({ title: "z" })));
+      expect(store.todos[1]).toBe(first);
+      expect(store.todos[2]).toBe(second);
+      expect(getPath(second)).toBe("/todos/2");
+      expect(isAlive(first)).toBe(true);
+
+      second.setTitle("changed");
+      expect(getSnapshot<any>(store).todos[2]).toEqual({ title: "changed" });
+    });
+
+    it("should undo collection changes with the reverse patches", () => {
+      const store = create();
+      const before = getSnapshot(store);
+      const undoManager = createUndoManager(store);
+
+      store.run(() => {
+        store.todos.push(Todo.create({ title: "c" }));
+        store.todos.splice(0, 1);
+        store.users.set("new", "Nia");
+        store.users.delete("abc");
+      });
+      expect(getSnapshot(store)).not.toEqual(before);
+
+      while (undoManager.canUndo) {
+        undoManager.undo();
+      }
+      expect(getSnapshot(store)).toEqual(before);
+      expect(store.todos.map((todo) => todo.title)).toEqual(["a", "b"]);
+
+      undoManager.dispose();
+    });
+  });
+});
+
+describe("Middleware", () => {
+  const Counter = types
+    .model("Counter", {
+      count: types.optional(types.number, 0),
+    })
+    .actions((self) => ({
+      add(n: number) {
+        self.count += n;
+        return self.count;
+      },
+    }))
+    .actions((self) => ({
+      addTwice(n: number) {
+        self.add(n);
+        return self.add(n);
+      },
+    }));
+
+  const Store = types.model("Store", {
+    left: Counter,
+    right: Counter,
+  });
+
+  it("should run middleware for every action", () => {
+    const counter = Counter.create({});
+    const calls: string[] = [];
+
+    const dispose = addMiddleware(counter, (call, next) => {
+      calls.push(`${call.type}:${call.name}(${call.args.join(",")})`);
+      return next(call);
+    });
+
+    counter.add(2);
+    expect(calls).toEqual(["action:add(2)"]);
+    expect(counter.count).toBe(2);
+
+    dispose();
+    counter.add(1);
+    expect(calls).toHaveLength(1);
+  });
+
+  it("should link nested actions with parent and root ids", () => {
+    const counter = Counter.create({});
+    const events: IMiddlewareEvent[] = [];
+
+    addMiddleware(counter, (call, next) => {
+      events.push(call);
+      return next(call);
+    });
+
+    counter.addTwice(1);
+
+    expect(events.map((e) => e.name)).toEqual(["addTwice", "add", "add"]);
+    const [root, first, second] = events;
+    expect(root.parentId).toBe(0);
+    expect(root.rootId).toBe(root.id);
+    expect(first.parentId).toBe(root.id);
+    expect(first.rootId).toBe(root.id);
+    expect(first.parentEvent).toBe(root);
+    expect(second.parentId).toBe(root.id);
+    expect(second.id).not.toBe(first.id);
+  });
+
+  it("should only see events from the target subtree", () => {
+    const store = Store.create({ left: {}, right: {} });
+    const seen: string[] = [];
+
+    addMiddleware(store.left, (call, next) => {
+      seen.push(call.name);
+      return next(call);
+    });
+
+    store.right.add(1);
+    expect(seen).toEqual([]);
+
+    store.left.add(1);
+    expect(seen).toEqual(["add"]);
+  });
+
+  it("should expose context and tree on the event", () => {
+    const store = Store.create({ left: {}, right: {} });
+    let event: IMiddlewareEvent | undefined;
+
+    addMiddleware(store, (call, next) => {
+      event = call;
+      return next(call);
+    });
+
+    store.right.add(1);
+    expect(event?.context).toBe(store.right);
+    expect(event?.tree).toBe(store);
+  });
+
+  it("should allow abort to short-circuit the action", () => {
+    const counter = Counter.create({});
+
+    addMiddleware(counter, (call, next, abort) => {
+      if (call.args[0] === 0) {
+        return abort("rejected");
+      }
+      return next(call);
+    });
+
+    expect(counter.add(0)).toBe("rejected");
+    expect(counter.count).toBe(0);
+    expect(counter.add(3)).toBe(3);
+  });
+
+  it("should allow rewriting args and transforming the result", () => {
+    const counter = Counter.create({});
+
+    addMiddleware(counter, (call, next) =>
+      next({ ...call, args: [10] }, (value) => `count=${value}`),
+    );
+
+    expect(counter.add(1)).toBe("count=10");
+    expect(counter.count).toBe(10);
+  });
+
+  it("should run the target's own middleware before its ancestors'", () => {
+    const store = Store.create({ left: {}, right: {} });
+    const order: string[] = [];
+
+    addMiddleware(store, (call, next) => {
+      order.push("root:before");
+      const result = next(call);
+      order.push("root:after");
+      return result;
+    });
+    addMiddleware(store.left, (call, next) => {
+      order.push("left:before");
+      const result = next(call);
+      order.push("left:after");
+      return result;
+    });
+
+    store.left.add(1);
+    expect(order).toEqual([
+      "left:before",
+      "root:before",
+      "root:after",
+      "left:after",
+    ]);
+  });
+
+  it("should throw if neither next nor abort is called", () => {
+    const counter = Counter.create({});
+    addMiddleware(counter, () => undefined);
+
+    expect(() => counter.add(1)).toThrow(/Neither next\(\) nor abort\(\)/);
+    expect(counter.count).toBe(0);
+  });
+});
+
+describe("Protection", () => {
+  const Todo = types
+    .model("ProtectedTodo", {
+      title: types.string,
+    })
+    .volatile(() => ({ editing: false }))
+    .actions((self) => ({
+      setTitle(title: string) {
+        self.title = title;
+      },
+    }));
+
+  const Store = types
+    .model("ProtectedStore", {
+      todos: types.array(Todo),
+      tags: types.map(types.string),
+    })
+    .actions((self) => ({
+      addTodo(title: string) {
+        self.todos.push(Todo.create({ title }));
+      },
+    }));
+
+  it("should protect trees by default", () => {
+    const store = Store.create({ todos: [{ title: "a" }] });
+    expect(isProtected(store)).toBe(true);
+    expect(isProtected(store.todos[0])).toBe(true);
+  });
+
+  it("should throw on direct writes outside of actions", () => {
+    const store = Store.create({ todos: [{ title: "a" }] });
+    const todo = store.todos[0];
+
+    expect(() => {
+      todo.title = "b";
+    }).toThrow(
+      "[jotai-state-tree] Cannot modify 'title' on 'ProtectedTodo@/todos/0', the object is protected and can only be modified by using an action.",
+    );
+    expect(() => {
+      todo.editing = true;
+    }).toThrow(/Cannot modify 'editing'/);
+    expect(() => store.todos.push(Todo.create({ title: "b" }))).toThrow(
+      /Cannot modify 'push' on 'array<ProtectedTodo>@\/todos'/,
+    );
+    expect(() => store.tags.set("x", "y")).toThrow(
+      /Cannot modify 'x' on 'map<string>@\/tags'/,
+    );
+
+    expect(todo.title).toBe("a");
+    expect(todo.editing).toBe(false);
+    expect(store.todos.length).toBe(1);
+    expect(store.tags.size).toBe(0);
+  });
+
+  it("should guard index writes and emit them as patches", () => {
+    const store = Store.create({ todos: [{ title: "a" }] });
+    const patches: IJsonPatch[] = [];
+    onPatch(store, (patch) => patches.push(patch));
+
+    expect(() => {
+      store.todos[0] = Todo.create({ title: "b" });
+    }).toThrow(/Cannot modify 'set' on 'array<ProtectedTodo>@\/todos'/);
+    expect(store.todos[0].title).toBe("a");
+
+    unprotect(store);
+    store.todos[0] = { title: "b" } as any;
+    store.todos[1] = { title: "c" } as any;
+    expect(() => {
+      store.todos[5] = { title: "d" } as any;
+    }).toThrow("[jotai-state-tree] Index 5 is out of bounds");
+
+    expect(getSnapshot(store.todos)).toEqual([{ title: "b" }, { title: "c" }]);
+    expect(patches).toEqual([
+      { op: "replace", path: "/todos/0", value: { title: "b" } },
+      { op: "add", path: "/todos/1", value: { title: "c" } },
+    ]);
+  });
 
-    const task = Task.create({ status: "pending" });
-    expect(task.status).toBe("pending");
+  it("should allow writes inside actions", () => {
+    const store = Store.create({ todos: [] });
+    store.addTodo("a");
+    store.todos[0].setTitle("b");
+    expect(getSnapshot(store.todos)).toEqual([{ title: "b" }]);
   });
 
-  it("should handle union of models", () => {
-    const Circle = types.model("Circle", {
-      type: types.literal("circle"),
-      radius: types.number,
-    });
+  it("should allow writes after unprotect and block them again after protect", () => {
+    const store = Store.create({ todos: [{ title: "a" }] });
 
-    const Square = types.model("Square", {
-      type: types.literal("square"),
-      side: types.number,
-    });
+    unprotect(store);
+    expect(isProtected(store)).toBe(false);
+    store.todos[0].title = "b";
+    store.tags.set("x", "y");
+    expect(store.todos[0].title).toBe("b");
+    expect(store.tags.get("x")).toBe("y");
 
-    const Shape = types.union(Circle, Square);
+    protect(store);
+    expect(() => {
+      store.todos[0].title = "c";
+    }).toThrow(/protected/);
+  });
 
-    const ShapeContainer = types.model("ShapeContainer", {
-      shape: Shape,
-    });
+  it("should only allow (un)protecting root nodes", () => {
+    const store = Store.create({ todos: [{ title: "a" }] });
+    expect(() => unprotect(store.todos[0])).toThrow(
+      "[jotai-state-tree] `unprotect` can only be invoked on root nodes",
+    );
+  });
 
-    const circleContainer = ShapeContainer.create({
-      shape: { type: "circle", radius: 10 },
-    });
+  it("should allow snapshots, patches and afterCreate hooks to modify protected trees", () => {
+    const Counter = types
+      .model("ProtectedCounter", { count: types.optional(types.number, 0) })
+      .afterCreate((self) => {
+        self.count = 10;
+      });
+    const counter = Counter.create();
+    expect(counter.count).toBe(10);
 
-    expect(circleContainer.shape.type).toBe("circle");
-    expect((circleContainer.shape as any).radius).toBe(10);
+    applySnapshot(counter, { count: 1 });
+    expect(counter.count).toBe(1);
+
+    applyPatch(counter, { op: "replace", path: "/count", value: 2 });
+    expect(counter.count).toBe(2);
   });
 });
 
-describe("References", () => {
-  it("should resolve references", () => {
-    const Author = types.model("Author", {
-      id: types.identifier,
-      name: types.string,
+describe("Transactions", () => {
+  const Store = types
+    .model("TransactionStore", {
+      count: types.optional(types.number, 0),
+      items: types.array(types.string),
+    })
+    .actions(
+      (self) => ({
+        addAll(items: string[]) {
+          for (const item of items) {
+            if (!item) throw new Error("empty item");
+            self.items.push(item);
+            self.count++;
+          }
+        },
+      }),
+      { transaction: true },
+    )
+    .actions((self) => ({
+      addAllUnsafe(items: string[]) {
+        for (const item of items) {
+          if (!item) throw new Error("empty item");
+          self.items.push(item);
+          self.count++;
+        }
+      },
+    }));
+
+  it("should notify snapshot listeners once at the end", () => {
+    const store = Store.create({});
+    unprotect(store);
+    const listener = vi.fn();
+    onSnapshot(store, listener);
+
+    const result = transaction(store, () => {
+      store.count = 1;
+      store.items.push("a");
+      expect(listener).not.toHaveBeenCalled();
+      return "done";
     });
 
-    const Book = types.model("Book", {
-      id: types.identifier,
-      title: types.string,
-      authorId: types.string, // Store as string for now
-    });
+    expect(result).toBe("done");
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ count: 1, items: ["a"] });
+  });
 
-    const Store = types
-      .model("Store", {
-        authors: types.array(Author),
-        books: types.array(Book),
-      })
-      .views((self) => ({
-        getAuthorById(id: string) {
-          return self.authors.find((a) => a.id === id);
-        },
-      }));
+  it("should roll back all changes when the function throws", () => {
+    const store = Store.create({ count: 1, items: ["a"] });
+    unprotect(store);
+    const before = getSnapshot(store);
+    const snapshotListener = vi.fn();
+    const patches: IJsonPatch[] = [];
+    onSnapshot(store, snapshotListener);
+    onPatch(store, (patch) => patches.push(patch));
+
+    expect(() =>
+      transaction(store, () => {
+        store.count = 5;
+        store.items.push("b");
+        store.items.shift();
+        throw new Error("boom");
+      }),
+    ).toThrow("boom");
+
+    expect(getSnapshot(store)).toEqual(before);
+    expect(snapshotListener).not.toHaveBeenCalled();
+    // Listeners see the change and its inverse
+    expect(patches.slice(3)).toEqual([
+      { op: "add", path: "/items/0", value: "a" },
+      { op: "remove", path: "/items/1" },
+      { op: "replace", path: "/count", value: 1 },
+    ]);
+  });
 
-    const store = Store.create({
-      authors: [{ id: "a1", name: "John Doe" }],
-      books: [{ id: "b1", title: "Great Book", authorId: "a1" }],
+  it("should only roll back the failed nested transaction", () => {
+    const store = Store.create({});
+    unprotect(store);
+    const listener = vi.fn();
+    onSnapshot(store, listener);
+
+    transaction(store, () => {
+      store.count = 1;
+      try {
+        transaction(store, () => {
+          store.items.push("a");
+          throw new Error("inner");
+        });
+      } catch {
+        // keep the outer changes
+      }
     });
 
-    const book = store.books[0];
-    const author = store.getAuthorById(book.authorId);
-
-    expect(author?.name).toBe("John Doe");
+    expect(getSnapshot(store)).toEqual({ count: 1, items: [] });
+    expect(listener).toHaveBeenCalledTimes(1);
   });
-});
 
-describe("Late Types (Recursive)", () => {
-  it("should handle recursive types", () => {
-    const TreeNode = types.model("TreeNode", {
-      id: types.identifier,
-      value: types.string,
-      children: types.optional(types.array(types.late(() => TreeNode)), []),
-    });
+  it("should run actions as transactions when configured", () => {
+    const store = Store.create({});
 
-    const tree = TreeNode.create({
-      id: "1",
-      value: "root",
-      children: [
-        {
-          id: "2",
-          value: "child1",
-          children: [],
-        },
-        {
-          id: "3",
-          value: "child2",
-          children: [
-            {
-              id: "4",
-              value: "grandchild",
-              children: [],
-            },
-          ],
-        },
-      ],
-    });
+    expect(() => store.addAll(["a", "b", ""])).toThrow("empty item");
+    expect(getSnapshot(store)).toEqual({ count: 0, items: [] });
 
-    expect(tree.value).toBe("root");
-    expect(tree.children.length).toBe(2);
-    expect(tree.children[1].children[0].value).toBe("grandchild");
+    expect(() => store.addAllUnsafe(["a", "b", ""])).toThrow("empty item");
+    expect(getSnapshot(store)).toEqual({ count: 2, items: ["a", "b"] });
   });
-});
 
-describe("Frozen Type", () => {
-  it("should handle frozen objects", () => {
-    const Model = types.model("Model", {
-      config: types.frozen<{ setting1: boolean; setting2: string }>(),
+  it("should scope the transaction option to the model it was given on", () => {
+    const addAll = (self: { items: string[] }) => ({
+      addAll(items: string[]) {
+        for (const item of items) {
+          if (!item) throw new Error("empty item");
+          self.items.push(item);
+        }
+      },
     });
-
-    const instance = Model.create({
-      config: { setting1: true, setting2: "value" },
+    const Base = types.model("SharedActions", {
+      items: types.array(types.string),
     });
+    const Safe = Base.actions(addAll, { transaction: true });
+    const Unsafe = Base.actions(addAll);
 
-    expect(instance.config.setting1).toBe(true);
-    expect(instance.config.setting2).toBe("value");
+    const safe = Safe.create({ items: [] });
+    expect(() => safe.addAll(["a", ""])).toThrow("empty item");
+    expect(getSnapshot(safe)).toEqual({ items: [] });
 
-    // Frozen objects should be immutable
-    expect(() => {
-      (instance.config as any).setting1 = false;
-    }).toThrow();
+    const unsafe = Unsafe.create({ items: [] });
+    expect(() => unsafe.addAll(["a", ""])).toThrow("empty item");
+    expect(getSnapshot(unsafe)).toEqual({ items: ["a"] });
+
+    const Composed = types.compose(
+      Safe,
+      types.model({ label: types.optional(types.string, "") }),
+    );
+    const composed = Composed.create({ items: [] });
+    expect(() => composed.addAll(["a", ""])).toThrow("empty item");
+    expect(getSnapshot(composed)).toEqual({ items: [], label: "" });
   });
 });
 
-describe("Patches", () => {
-  it("should listen to patches", () => {
-    const Model = types
-      .model("Model", {
-        value: types.number,
-      })
-      .actions((self) => ({
-        setValue(v: number) {
-          self.value = v;
-        },
-      }));
+describe("Deferred Notifications", () => {
+  const Item = types.model("DeferredItem", { name: types.string });
+  const Store = types
+    .model("DeferredStore", {
+      a: types.optional(types.number, 0),
+      b: types.optional(types.number, 0),
+      items: types.array(Item),
+    })
+    .actions((self) => ({
+      setA(value: number) {
+        self.a = value;
+      },
+      setBoth(value: number) {
+        this.setA(value);
+        self.b = value;
+      },
+      removeFirst() {
+        self.items.shift();
+      },
+    }));
 
-    const instance = Model.create({ value: 0 });
-    const patches: unknown[] = [];
+  it("should notify snapshot listeners once the outermost action ends", () => {
+    const store = Store.create({});
+    const events: string[] = [];
+    onSnapshot(store, (snapshot: any) =>
+      events.push(`snapshot ${snapshot.a},${snapshot.b}`),
+    );
+    onPatch(store, (patch) => events.push(`patch ${patch.path}`));
 
-    const disposer = onPatch(instance, (patch) => {
-      patches.push(patch);
-    });
+    store.setBoth(1);
 
-    instance.setValue(10);
+    expect(events).toEqual(["patch /a", "patch /b", "snapshot 1,1"]);
+  });
 
-    expect(patches.length).toBeGreaterThan(0);
+  it("should defer lifecycle notifications until the action ends", () => {
+    const store = Store.create({ items: [{ name: "a" }] });
+    const item = store.items[0];
+    const listener = vi.fn();
+    onLifecycleChange(getStateTreeNode(item), listener);
 
-    disposer();
+    const dispose = onPatch(store, () => {
+      expect(listener).not.toHaveBeenCalled();
+    });
+    store.removeFirst();
+    dispose();
+
+    expect(listener).toHaveBeenCalledWith(false);
   });
 
-  it("should apply patches", () => {
-    const Model = types.model("Model", {
-      value: types.number,
-      name: types.string,
-    });
+  it("should batch changes made in runInAction", () => {
+    const store = Store.create({});
+    const listener = vi.fn();
+    onSnapshot(store, listener);
 
-    const instance = Model.create({ value: 0, name: "test" });
+    const result = runInAction(() => {
+      store.a = 1;
+      store.b = 2;
+      store.setA(3);
+      return store.a;
+    });
 
-    applyPatch(instance, { op: "replace", path: "/value", value: 42 });
-    expect(instance.value).toBe(42);
+    expect(result).toBe(3);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ a: 3, b: 2, items: [] });
   });
 });
 
@@ -745,6 +2813,35 @@ describe("Lifecycle Hooks", () => {
     expect(instance.count).toBe(1);
     expect(instance.upperName).toBe("TEST");
   });
+
+  it("should call attach, detach and destroy hooks", () => {
+    const events: string[] = [];
+    const Item = types
+      .model("Item", { name: types.string })
+      .afterAttach((self) => events.push(`attach ${self.name}`))
+      .beforeDetach((self) => events.push(`detach ${self.name}`))
+      .beforeDestroy((self) => {
+        expect(isAlive(self)).toBe(true);
+        events.push(`destroy ${self.name}`);
+      });
+    const List = types
+      .model("List", { items: types.array(Item) })
+      .actions((self) => ({
+        add(name: string) {
+          self.items.push({ name });
+        },
+      }));
+
+    const list = List.create({ items: [{ name: "a" }] });
+    list.add("b");
+    expect(events).toEqual(["attach a", "attach b"]);
+
+    const [a, b] = list.items;
+    detach(a);
+    unprotect(list);
+    list.items.remove(b);
+    expect(events).toEqual(["attach a", "attach b", "detach a", "destroy b"]);
+  });
 });
 
 describe("Tree Utilities", () => {
@@ -920,6 +3017,170 @@ describe("Pre/Post Process Snapshot", () => {
   });
 });
 
+describe("Snapshot Migrations", () => {
+  // v1 had `name`, v2 split it into `first`/`last`, v3 added `email`
+  const User = types
+    .model("User", {
+      id: types.identifier,
+      first: types.string,
+      last: types.string,
+      email: types.optional(types.string, ""),
+    })
+    .version(3)
+    .migrations({
+      1: ({ name, ...snapshot }: { name: string }) => {
+        const [first, last] = name.split(" ");
+        return { ...snapshot, first, last };
+      },
+      2: (snapshot: object) => ({ ...snapshot, email: "unknown" }),
+    });
+
+  it("should stamp the version into snapshots", () => {
+    const user = User.create({ id: "1", first: "Ada", last: "Lovelace" });
+
+    expect(getSnapshot(user)).toEqual({
+      $version: 3,
+      id: "1",
+      first: "Ada",
+      last: "Lovelace",
+      email: "",
+    });
+    expect(User.create(getSnapshot(user)).first).toBe("Ada");
+  });
+
+  it("should run the migration chain on create", () => {
+    const user = User.create({
+      $version: 1,
+      id: "1",
+      name: "Ada Lovelace",
+    } as any);
+
+    expect(user.first).toBe("Ada");
+    expect(user.last).toBe("Lovelace");
+    expect(user.email).toBe("unknown");
+  });
+
+  it("should take unversioned snapshots to be current", () => {
+    const Settings = types
+      .model("Settings", {
+        theme: types.string,
+        fontSize: types.optional(types.number, 12),
+      })
+      .version(1)
+      .migrations({
+        0: (snapshot: { size: number }) => ({
+          ...snapshot,
+          fontSize: snapshot.size,
+        }),
+      });
+    const Editor = types.model("Editor", {
+      settings: types.optional(Settings, { theme: "light", fontSize: 10 }),
+    });
+
+    const user = User.create({ id: "1", first: "Ada", last: "Lovelace" });
+    expect(user.email).toBe("");
+    expect(Settings.create({ theme: "dark", fontSize: 14 }).fontSize).toBe(14);
+    expect(Editor.create().settings.fontSize).toBe(10);
+    expect(Settings.validate({ theme: "dark", fontSize: 14 }, []).valid).toBe(
+      true,
+    );
+    expect(
+      Settings.create({ $version: 0, theme: "dark", size: 16 } as any)
+        .fontSize,
+    ).toBe(16);
+  });
+
+  it("should migrate snapshots on applySnapshot", () => {
+    const user = User.create({ id: "1", first: "Ada", last: "Lovelace" });
+
+    applySnapshot(user, {
+      $version: 2,
+      id: "1",
+      first: "Grace",
+      last: "Hopper",
+    });
+
+    expect(user.first).toBe("Grace");
+    expect(user.email).toBe("unknown");
+  });
+
+  it("should migrate before pre-processing and stamp after post-processing", () => {
+    const Versioned = types
+      .model("Versioned", { value: types.number })
+      .preProcessSnapshot((snapshot: { value: number }) => ({
+        value: snapshot.value * 10,
+      }))
+      .postProcessSnapshot((snapshot) => ({ value: snapshot.value / 10 }))
+      .version(1)
+      .migrations({
+        0: (snapshot: { old: number }) => ({ value: snapshot.old }),
+      });
+
+    const instance = Versioned.create({ $version: 0, old: 2 } as any);
+
+    expect(instance.value).toBe(20);
+    expect(getSnapshot(instance)).toEqual({ $version: 1, value: 2 });
+  });
+
+  it("should migrate nested models in arrays and maps", () => {
+    const Team = types
+      .model("Team", {
+        members: types.array(User),
+        byId: types.map(User),
+      })
+      .version(1);
+
+    const team = Team.create({
+      $version: 1,
+      members: [{ $version: 1, id: "1", name: "Ada Lovelace" }],
+      byId: { "2": { $version: 2, id: "2", first: "Grace", last: "Hopper" } },
+    } as any);
+
+    expect(team.members[0].last).toBe("Lovelace");
+    expect(team.byId.get("2")!.email).toBe("unknown");
+
+    const member = team.members[0];
+    applySnapshot(team, {
+      members: [{ $version: 1, id: "1", name: "Ada King" }],
+      byId: {},
+    } as any);
+    expect(team.members[0]).toBe(member);
+    expect(member.last).toBe("King");
+  });
+
+  it("should name the version and path of a failed migration", () => {
+    const Team = types.model("Team", { members: types.array(User) });
+    const members = [
+      { id: "1", first: "Ada", last: "Lovelace" },
+      { $version: 1, id: "2", name: 42 },
+    ];
+
+    expect(() => Team.create({ members } as any)).toThrow(
+      "[jotai-state-tree] Migration from version 1 to 2 of 'User' failed at '/members/1':",
+    );
+
+    const team = Team.create({ members: [] });
+    expect(() => applySnapshot(team, { members } as any)).toThrow(
+      "failed at '/members/1'",
+    );
+  });
+
+  it("should reject missing migrations and newer versions", () => {
+    const Settings = types
+      .model("Settings", { theme: types.string })
+      .version(2)
+      .migrations({ 1: (snapshot: object) => snapshot });
+
+    expect(() => Settings.create({ $version: 0, theme: "dark" })).toThrow(
+      "[jotai-state-tree] Missing migration from version 0 to 1 of 'Settings' at '/'",
+    );
+    expect(() => Settings.create({ $version: 3, theme: "dark" })).toThrow(
+      "Unsupported snapshot version 3 of 'Settings'",
+    );
+    expect(() => types.model({}).version(1.5)).toThrow("non-negative integer");
+  });
+});
+
 describe("Enumeration", () => {
   it("should create enumeration with name", () => {
     const Status = types.enumeration("Status", ["pending", "active", "done"]);
@@ -954,6 +3215,153 @@ describe("Enumeration", () => {
   });
 });
 
+describe("Standard Schema", () => {
+  const Todo = types.model("Todo", {
+    title: types.string,
+    done: types.optional(types.boolean, false),
+  });
+  const Store = types.model("Store", {
+    todos: types.array(Todo),
+    lists: types.map(types.array(types.string)),
+  });
+
+  it("should expose the Standard Schema interface on every type", () => {
+    for (const type of [
+      types.string,
+      types.identifier,
+      types.literal("a"),
+      types.enumeration(["a"]),
+      types.frozen(),
+      types.optional(types.string, ""),
+      types.maybeNull(types.string),
+      types.union(types.string, types.number),
+      types.late(() => Todo),
+      types.reference(Todo),
+      Todo,
+      Store,
+    ]) {
+      expect(type["~standard"].version).toBe(1);
+      expect(type["~standard"].vendor).toBe("jotai-state-tree");
+    }
+  });
+
+  it("should return valid values", () => {
+    const snapshot = { todos: [{ title: "a" }], lists: {} };
+
+    expect(Store["~standard"].validate(snapshot)).toEqual({ value: snapshot });
+  });
+
+  it("should report issues with path segments", () => {
+    const result = Store["~standard"].validate({
+      todos: [{ title: "a" }, { title: 1 }],
+      lists: { "a/b": ["x", 2] },
+    });
+
+    expect(result.issues).toEqual([
+      {
+        message: "Value '1' is not a valid 'string'",
+        path: ["todos", 1, "title"],
+      },
+      {
+        message: "Value '2' is not a valid 'string'",
+        path: ["lists", "a/b", 1],
+      },
+    ]);
+    expect(types.string["~standard"].validate(1)).toEqual({
+      issues: [
+        { message: "Value '1' is not a valid 'string'", path: undefined },
+      ],
+    });
+  });
+
+  describe("fromStandardSchema", () => {
+    // A trimming email validator, like `z.string().trim().email()`
+    const Email: StandardSchemaV1<string, string> = {
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: (value) =>
+          typeof value === "string" && value.includes("@")
+            ? { value: value.trim() }
+            : { issues: [{ message: "Invalid email" }] },
+      },
+    };
+    const Address: StandardSchemaV1<{ city: string }> = {
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: (value) =>
+          typeof (value as { city?: unknown })?.city === "string"
+            ? { value: value as { city: string } }
+            : { issues: [{ message: "Required", path: [{ key: "city" }] }] },
+      },
+    };
+    const User = types.model("User", {
+      email: types.fromStandardSchema(Email, "Email"),
+      address: types.maybe(types.fromStandardSchema(Address)),
+    });
+
+    it("should keep the validated input as the value", () => {
+      const user = User.create({ email: " ada@example.com " });
+
+      expect(user.email).toBe(" ada@example.com ");
+      expect(getSnapshot(user).email).toBe(" ada@example.com ");
+      expect(() => User.create({ email: "ada" })).toThrow(
+        `[jotai-state-tree] Value "ada" is not a valid 'Email': Invalid email`,
+      );
+      expect(() => User.create({ email: { at: "@" } as any })).toThrow(
+        `Value {"at":"@"} is not a valid 'Email'`,
+      );
+    });
+
+    it("should round-trip snapshots through parsing schemas", () => {
+      // Parses ISO dates, like `z.string().pipe(z.coerce.date())`
+      const IsoDate: StandardSchemaV1<string, Date> = {
+        "~standard": {
+          version: 1,
+          vendor: "test",
+          validate: (value) =>
+            typeof value === "string" && !isNaN(Date.parse(value))
+              ? { value: new Date(value) }
+              : { issues: [{ message: "Invalid date" }] },
+        },
+      };
+      const Event = types.model("Event", {
+        at: types.fromStandardSchema(IsoDate),
+      });
+      const event = Event.create({ at: "2024-01-01T00:00:00.000Z" });
+
+      const snapshot = getSnapshot(event);
+      expect(snapshot).toEqual({ at: "2024-01-01T00:00:00.000Z" });
+      expect(getSnapshot(Event.create(snapshot))).toEqual(snapshot);
+      applySnapshot(event, snapshot);
+      expect(event.at).toBe("2024-01-01T00:00:00.000Z");
+    });
+
+    it("should validate with the schema and keep issue paths", () => {
+      expect(User.is(User.create({ email: "ada@example.com" }))).toBe(true);
+      expect(
+        User["~standard"].validate({ email: "ada@example.com", address: {} })
+          .issues,
+      ).toEqual([{ message: "Required", path: ["address", "city"] }]);
+    });
+
+    it("should reject asynchronous schemas", () => {
+      const Async = types.fromStandardSchema({
+        "~standard": {
+          version: 1,
+          vendor: "test",
+          validate: async (value: unknown) => ({ value }),
+        },
+      });
+
+      expect(() => Async.create("a")).toThrow(
+        "[jotai-state-tree] 'standardSchema(test)' validates asynchronously",
+      );
+    });
+  });
+});
+
 describe("Complex Nested Structures", () => {
   it("should handle deeply nested models", () => {
     const Address = types.model("Address", {
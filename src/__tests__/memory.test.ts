@@ -20,6 +20,7 @@ import {
   isAlive,
   clone,
   detach,
+  unprotect,
 } from "../index";
 import {
   getRegistryStats,
@@ -183,6 +184,7 @@ describe("Memory Management", () => {
       });
 
       const instance = Model.create({ value: 0 });
+      unprotect(instance);
 
       let callCount = 0;
       const disposer = onSnapshot(instance, () => {
@@ -208,6 +210,7 @@ describe("Memory Management", () => {
       });
 
       const instance = Model.create({ value: 0 });
+      unprotect(instance);
 
       let callCount = 0;
       const disposer = onSnapshot(instance, () => {
@@ -234,6 +237,7 @@ describe("Memory Management", () => {
       });
 
       const instance = Model.create({ value: 0 });
+      unprotect(instance);
 
       let patchCount = 0;
       const disposer = onPatch(instance, () => {
@@ -257,6 +261,7 @@ describe("Memory Management", () => {
       });
 
       const instance = Model.create({ value: 0 });
+      unprotect(instance);
 
       // Subscribe and unsubscribe many times
       for (let i = 0; i < 100; i++) {
@@ -591,6 +596,7 @@ describe("Stress Tests", () => {
     });
 
     const instance = Model.create({ value: 0 });
+    unprotect(instance);
     const disposers: (() => void)[] = [];
 
     // Add many subscriptions
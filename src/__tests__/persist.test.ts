@@ -0,0 +1,355 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs, { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  types,
+  getSnapshot,
+  persist,
+  createMemoryStorage,
+  createWebStorage,
+  createFileStorage,
+  type IPersistStorage,
+} from "../index";
+
+const Settings = types
+  .model("Settings", {
+    theme: types.optional(types.string, "light"),
+    fontSize: types.optional(types.number, 14),
+    session: types.optional(types.string, ""),
+  })
+  .actions((self) => ({
+    setTheme(theme: string) {
+      self.theme = theme;
+    },
+    setFontSize(fontSize: number) {
+      self.fontSize = fontSize;
+    },
+    setSession(session: string) {
+      self.session = session;
+    },
+  }));
+
+/** Async storage resolving reads and writes on the next tick, like IndexedDB */
+function createAsyncStorage(items = new Map<string, string>()) {
+  const storage: IPersistStorage = {
+    getItem: async (key) => items.get(key) ?? null,
+    setItem: async (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: async (key) => {
+      items.delete(key);
+    },
+  };
+  return { storage, items };
+}
+
+describe("persist", () => {
+  describe("hydration", () => {
+    it("should hydrate synchronously from sync storage", () => {
+      const storage = createMemoryStorage();
+      storage.setItem("settings", JSON.stringify({ theme: "dark" }));
+      const settings = Settings.create();
+
+      const persisted = persist(settings, { key: "settings", storage });
+
+      expect(persisted.status).toBe("hydrated");
+      expect(getSnapshot(settings)).toEqual({
+        theme: "dark",
+        fontSize: 14,
+        session: "",
+      });
+    });
+
+    it("should report hydration status with async storage", async () => {
+      const { storage } = createAsyncStorage(
+        new Map([["settings", JSON.stringify({ fontSize: 20 })]]),
+      );
+      const settings = Settings.create();
+
+      const persisted = persist(settings, { key: "settings", storage });
+      expect(persisted.status).toBe("hydrating");
+
+      await persisted.hydrated;
+      expect(persisted.status).toBe("hydrated");
+      expect(settings.fontSize).toBe(20);
+    });
+
+    it("should report storage errors", async () => {
+      const error = new Error("unavailable");
+      const storage: IPersistStorage = {
+        getItem: () => Promise.reject(error),
+        setItem: () => {},
+        removeItem: () => {},
+      };
+
+      const persisted = persist(Settings.create(), {
+        key: "settings",
+        storage,
+      });
+
+      await expect(persisted.hydrated).rejects.toBe(error);
+      expect(persisted.status).toBe("error");
+      expect(persisted.error).toBe(error);
+    });
+
+    it("should migrate stored snapshots of versioned models", () => {
+      const Versioned = Settings.version(2).migrations({
+        1: (snapshot: { theme: string }) => ({
+          ...snapshot,
+          theme: snapshot.theme === "night" ? "dark" : snapshot.theme,
+        }),
+      });
+      const storage = createMemoryStorage();
+      storage.setItem(
+        "settings",
+        JSON.stringify({ $version: 1, theme: "night" }),
+      );
+      const settings = Versioned.create();
+
+      persist(settings, { key: "settings", storage, exclude: ["session"] });
+      expect(settings.theme).toBe("dark");
+
+      settings.setFontSize(20);
+      expect(JSON.parse(storage.getItem("settings") as string)).toEqual({
+        $version: 2,
+        theme: "dark",
+        fontSize: 20,
+      });
+    });
+
+    it("should not overwrite storage before hydrating", async () => {
+      const { storage, items } = createAsyncStorage(
+        new Map([["settings", JSON.stringify({ theme: "dark" })]]),
+      );
+      const settings = Settings.create();
+      const persisted = persist(settings, { key: "settings", storage });
+
+      settings.setFontSize(16);
+      await persisted.flush();
+
+      expect(persisted.status).toBe("hydrated");
+      expect(JSON.parse(items.get("settings")!).theme).toBe("dark");
+    });
+  });
+
+  describe("writing", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should write snapshots on change", () => {
+      const storage = createMemoryStorage();
+      const settings = Settings.create();
+      persist(settings, { key: "settings", storage });
+
+      settings.setTheme("dark");
+
+      expect(JSON.parse(storage.getItem("settings") as string)).toEqual({
+        theme: "dark",
+        fontSize: 14,
+        session: "",
+      });
+    });
+
+    it("should throttle writes", () => {
+      const storage = createMemoryStorage();
+      const setItem = vi.spyOn(storage, "setItem");
+      const settings = Settings.create();
+      persist(settings, { key: "settings", storage, throttleMs: 100 });
+
+      settings.setFontSize(15);
+      settings.setFontSize(16);
+      settings.setFontSize(17);
+      expect(setItem).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(100);
+      expect(setItem).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(storage.getItem("settings") as string).fontSize).toBe(
+        17,
+      );
+    });
+
+    it("should only persist included and not excluded properties", () => {
+      const storage = createMemoryStorage();
+      const settings = Settings.create();
+      persist(settings, { key: "a", storage, include: ["theme", "session"] });
+      persist(settings, { key: "b", storage, exclude: ["session"] });
+
+      settings.setSession("secret");
+
+      expect(JSON.parse(storage.getItem("a") as string)).toEqual({
+        theme: "light",
+        session: "secret",
+      });
+      expect(JSON.parse(storage.getItem("b") as string)).toEqual({
+        theme: "light",
+        fontSize: 14,
+      });
+    });
+
+    it("should pause, resume and flush", async () => {
+      const storage = createMemoryStorage();
+      const settings = Settings.create();
+      const persisted = persist(settings, {
+        key: "settings",
+        storage,
+        throttleMs: 1000,
+      });
+
+      persisted.pause();
+      expect(persisted.isPaused).toBe(true);
+      settings.setTheme("dark");
+      vi.advanceTimersByTime(1000);
+      expect(storage.getItem("settings")).toBeNull();
+
+      await persisted.flush();
+      expect(JSON.parse(storage.getItem("settings") as string).theme).toBe(
+        "dark",
+      );
+
+      persisted.resume();
+      settings.setTheme("blue");
+      vi.advanceTimersByTime(1000);
+      expect(JSON.parse(storage.getItem("settings") as string).theme).toBe(
+        "blue",
+      );
+    });
+
+    it("should recover from write errors once a write succeeds", () => {
+      const error = new Error("quota exceeded");
+      const storage = createMemoryStorage();
+      const setItem = storage.setItem;
+      const settings = Settings.create();
+      const persisted = persist(settings, { key: "settings", storage });
+
+      storage.setItem = () => {
+        throw error;
+      };
+      settings.setTheme("dark");
+      expect(persisted.status).toBe("error");
+      expect(persisted.error).toBe(error);
+
+      storage.setItem = setItem;
+      settings.setTheme("blue");
+      expect(persisted.status).toBe("hydrated");
+      expect(persisted.error).toBeUndefined();
+      expect(JSON.parse(storage.getItem("settings") as string).theme).toBe(
+        "blue",
+      );
+    });
+
+    it("should recover from async write errors once a write succeeds", async () => {
+      const { storage } = createAsyncStorage();
+      const setItem = storage.setItem;
+      const settings = Settings.create();
+      const persisted = persist(settings, { key: "settings", storage });
+      await persisted.hydrated;
+
+      storage.setItem = () => Promise.reject(new Error("offline"));
+      settings.setTheme("dark");
+      await persisted.flush();
+      expect(persisted.status).toBe("error");
+
+      storage.setItem = setItem;
+      settings.setTheme("blue");
+      await persisted.flush();
+      expect(persisted.status).toBe("hydrated");
+    });
+
+    it("should only overwrite unread snapshots on flush", async () => {
+      const error = new Error("unavailable");
+      const { storage, items } = createAsyncStorage(
+        new Map([["settings", JSON.stringify({ theme: "dark" })]]),
+      );
+      storage.getItem = () => Promise.reject(error);
+      const settings = Settings.create();
+      const persisted = persist(settings, { key: "settings", storage });
+      await persisted.hydrated.catch(() => {});
+
+      settings.setTheme("blue");
+      vi.runAllTimers();
+      await Promise.resolve();
+      expect(persisted.status).toBe("error");
+      expect(persisted.error).toBe(error);
+      expect(JSON.parse(items.get("settings")!).theme).toBe("dark");
+
+      await persisted.flush();
+      expect(JSON.parse(items.get("settings")!).theme).toBe("blue");
+    });
+
+    it("should stop writing once disposed and clear storage", async () => {
+      const storage = createMemoryStorage();
+      const settings = Settings.create();
+      const persisted = persist(settings, { key: "settings", storage });
+
+      settings.setTheme("dark");
+      persisted.dispose();
+      settings.setTheme("blue");
+      expect(JSON.parse(storage.getItem("settings") as string).theme).toBe(
+        "dark",
+      );
+
+      await persisted.clear();
+      expect(storage.getItem("settings")).toBeNull();
+    });
+  });
+
+  describe("storage adapters", () => {
+    it("should wrap Web Storage", () => {
+      const items = new Map<string, string>();
+      const webStorage = {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => items.set(key, value),
+        removeItem: (key: string) => items.delete(key),
+      } as unknown as Storage;
+      const settings = Settings.create();
+
+      persist(settings, {
+        key: "settings",
+        storage: createWebStorage(webStorage),
+      });
+      settings.setTheme("dark");
+
+      expect(JSON.parse(items.get("settings")!).theme).toBe("dark");
+    });
+
+    it("should throw without Web Storage", () => {
+      expect(() => persist(Settings.create(), { key: "settings" })).toThrow(
+        "[jotai-state-tree] Web Storage is not available",
+      );
+    });
+
+    it("should persist to files", async () => {
+      const directory = await mkdtemp(join(tmpdir(), "jotai-state-tree-"));
+      try {
+        const storage = createFileStorage(directory, fs);
+        const settings = Settings.create();
+        const persisted = persist(settings, { key: "app/settings", storage });
+        await persisted.hydrated;
+
+        settings.setTheme("dark");
+        await persisted.flush();
+
+        const file = join(
+          directory,
+          `${encodeURIComponent("app/settings")}.json`,
+        );
+        expect(JSON.parse(await readFile(file, "utf8")).theme).toBe("dark");
+
+        const restored = Settings.create();
+        await persist(restored, { key: "app/settings", storage }).hydrated;
+        expect(restored.theme).toBe("dark");
+
+        await storage.removeItem("app/settings");
+        expect(await storage.getItem("app/settings")).toBeNull();
+      } finally {
+        await rm(directory, { recursive: true, force: true });
+      }
+    });
+  });
+});
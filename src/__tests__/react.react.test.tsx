@@ -2,7 +2,20 @@
  * @vitest-environment jsdom
  */
 
-import React, { useState, useEffect } from "react";
+import React, {
+  useState,
+  useEffect,
+  useLayoutEffect,
+  StrictMode,
+  startTransition,
+} from "react";
+import {
+  atom,
+  createStore,
+  useAtom,
+  useAtomValue,
+  Provider as JotaiProvider,
+} from "jotai";
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { render, screen, act, waitFor, cleanup } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
@@ -15,6 +28,12 @@ import {
   clearAllRegistries,
   resetGlobalStore,
   getRegistryStats,
+  getNodeStore,
+  getPropertyAtom,
+  getViewAtom,
+  atomWithTree,
+  isAlive,
+  unprotect,
 } from "../index";
 
 import {
@@ -29,6 +48,8 @@ import {
   useSyncedStore,
   batch,
   createStoreContext,
+  useSelector,
+  shallowEqual,
 } from "../react";
 
 import type { Instance } from "../index";
@@ -170,16 +191,122 @@ describe("React Integration", () => {
       render(<CountOnly s={store} />);
       expect(renderCount).toBe(1);
 
-      // Change unrelated field - should still trigger since we subscribe to the whole node
+      // Change unrelated field - only the atoms read during render are subscribed
       act(() => {
         store.setUnrelated("changed");
       });
 
       // Give time for any potential re-renders
       await new Promise((r) => setTimeout(r, 50));
+      expect(renderCount).toBe(1);
+
+      act(() => {
+        store.increment();
+      });
+
+      await waitFor(() => {
+        expect(screen.getByTestId("count").textContent).toBe("1");
+      });
+      expect(renderCount).toBe(2);
+    });
+
+    it("should only re-render items whose own todo changed", async () => {
+      const todoList = TodoListModel.create({
+        todos: [
+          { id: "1", text: "First", completed: false },
+          { id: "2", text: "Second", completed: false },
+        ],
+      });
+      const renders: Record<string, number> = {};
+      let listRenders = 0;
+
+      const TodoItem = observer(function TodoItem({
+        todo,
+      }: {
+        todo: Instance<typeof TodoModel>;
+      }) {
+        renders[todo.id] = (renders[todo.id] ?? 0) + 1;
+        return (
+          <li data-testid={`todo-${todo.id}`}>
+            {todo.completed ? "done" : "pending"}
+          </li>
+        );
+      });
+
+      const TodoList = observer(function TodoList({
+        list,
+      }: {
+        list: typeof todoList;
+      }) {
+        listRenders++;
+        return (
+          <ul>
+            {list.todos.map((todo) => (
+              <TodoItem key={todo.id} todo={todo} />
+            ))}
+          </ul>
+        );
+      });
+
+      render(<TodoList list={todoList} />);
+      expect(renders).toEqual({ "1": 1, "2": 1 });
+
+      act(() => {
+        todoList.toggleTodo("1");
+      });
+
+      await waitFor(() => {
+        expect(screen.getByTestId("todo-1").textContent).toBe("done");
+      });
+      expect(renders).toEqual({ "1": 2, "2": 1 });
+      expect(listRenders).toBe(1);
+
+      act(() => {
+        todoList.addTodo("3", "Third");
+      });
+
+      await waitFor(() => {
+        expect(screen.getByTestId("todo-3").textContent).toBe("pending");
+      });
+      expect(listRenders).toBe(2);
+      expect(renders).toEqual({ "1": 2, "2": 1, "3": 1 });
+    });
+
+    it("should re-render on view changes only when the view value changes", async () => {
+      const todoList = TodoListModel.create({
+        todos: [
+          { id: "1", text: "First", completed: false },
+          { id: "2", text: "Second", completed: true },
+        ],
+      });
+      let renderCount = 0;
+
+      const CompletedCount = observer(function CompletedCount({
+        list,
+      }: {
+        list: typeof todoList;
+      }) {
+        renderCount++;
+        return <div data-testid="completed">{list.completedCount}</div>;
+      });
+
+      render(<CompletedCount list={todoList} />);
+
+      act(() => {
+        todoList.toggleTodo("1");
+      });
+
+      await waitFor(() => {
+        expect(screen.getByTestId("completed").textContent).toBe("2");
+      });
+      expect(renderCount).toBe(2);
 
-      // The observer subscribes to snapshot changes on the node, so it will re-render
-      // This is expected behavior - fine-grained tracking would require more complex implementation
+      // Adding a pending todo doesn't change the count
+      act(() => {
+        todoList.addTodo("3", "Third");
+      });
+      await new Promise((r) => setTimeout(r, 50));
+      expect(renderCount).toBe(2);
     });
 
     it("should handle nested state tree nodes", async () => {
@@ -224,6 +351,236 @@ describe("React Integration", () => {
         expect(screen.getByTestId("pending").textContent).toBe("0");
       });
     });
+
+    it("should track memo, forwardRef and class components", async () => {
+      const counter = CounterModel.create({ count: 0 });
+      type Props = { store: typeof counter };
+
+      const MemoCount = observer(
+        React.memo(function MemoCount({ store }: Props) {
+          return <div data-testid="memo">{store.count}</div>;
+        }),
+      );
+      const RefCount = observer(
+        React.forwardRef<HTMLDivElement, Props>(function RefCount(
+          { store },
+          ref,
+        ) {
+          return (
+            <div data-testid="ref" ref={ref}>
+              {store.count}
+            </div>
+          );
+        }),
+      ) as React.ComponentType<Props & React.RefAttributes<HTMLDivElement>>;
+      const ClassCount = observer(
+        class ClassCount extends React.Component<Props> {
+          render() {
+            return <div data-testid="class">{this.props.store.count}</div>;
+          }
+        },
+      );
+      const ref = React.createRef<HTMLDivElement>();
+
+      render(
+        <>
+          <MemoCount store={counter} />
+          <RefCount store={counter} ref={ref} />
+          <ClassCount store={counter} />
+        </>,
+      );
+      expect(ref.current).toBe(screen.getByTestId("ref"));
+
+      act(() => {
+        counter.increment();
+      });
+
+      await waitFor(() => {
+        expect(screen.getByTestId("memo").textContent).toBe("1");
+        expect(screen.getByTestId("ref").textContent).toBe("1");
+        expect(screen.getByTestId("class").textContent).toBe("1");
+      });
+    });
+
+    it("should follow nodes passed to components it can't track", async () => {
+      const counter = CounterModel.create({ count: 0 });
+      function Count({ store }: { store: typeof counter }) {
+        return <div data-testid="lazy">{store.count}</div>;
+      }
+      const LazyCount = observer(React.lazy(async () => ({ default: Count })));
+
+      render(
+        <React.Suspense fallback={null}>
+          <LazyCount store={counter} />
+        </React.Suspense>,
+      );
+      await waitFor(() => {
+        expect(screen.getByTestId("lazy").textContent).toBe("0");
+      });
+
+      act(() => {
+        counter.increment();
+      });
+
+      await waitFor(() => {
+        expect(screen.getByTestId("lazy").textContent).toBe("1");
+      });
+    });
+  });
+
+  describe("observer subscriptions", () => {
+    /** A store counting its live atom subscriptions */
+    const createCountingStore = () => {
+      const store = createStore();
+      const sub = store.sub;
+      const counter = { active: 0 };
+      store.sub = (atom, listener) => {
+        counter.active++;
+        const unsubscribe = sub(atom, listener);
+        return () => {
+          counter.active--;
+          unsubscribe();
+        };
+      };
+      return { store, counter };
+    };
+
+    const CounterDisplay = observer(function CounterDisplay({
+      counter,
+    }: {
+      counter: Instance<typeof CounterModel>;
+    }) {
+      return <div data-testid="count">{counter.count}</div>;
+    });
+
+    it("should subscribe once per dependency under StrictMode", async () => {
+      const baseline = createCountingStore();
+      render(
+        <CounterDisplay
+          counter={CounterModel.create({ count: 0 }, undefined, {
+            store: baseline.store,
+          })}
+        />,
+      );
+      const expected = baseline.counter.active;
+      expect(expected).toBeGreaterThan(0);
+      cleanup();
+
+      const { store, counter: subscriptions } = createCountingStore();
+      const counter = CounterModel.create({ count: 0 }, undefined, { store });
+
+      const { unmount } = render(
+        <StrictMode>
+          <CounterDisplay counter={counter} />
+        </StrictMode>,
+      );
+      expect(subscriptions.active).toBe(expected);
+
+      act(() => {
+        counter.increment();
+      });
+      await waitFor(() => {
+        expect(screen.getByTestId("count").textContent).toBe("1");
+      });
+      expect(subscriptions.active).toBe(expected);
+
+      unmount();
+      expect(subscriptions.active).toBe(0);
+    });
+
+    it("should not subscribe for renders that are never committed", () => {
+      const { store, counter: subscriptions } = createCountingStore();
+      const counter = CounterModel.create({ count: 0 }, undefined, { store });
+
+      function Thrower(): JSX.Element {
+        throw new Error("boom");
+      }
+      class Boundary extends React.Component<
+        { children: React.ReactNode },
+        { failed: boolean }
+      > {
+        state = { failed: false };
+        static getDerivedStateFromError() {
+          return { failed: true };
+        }
+        render() {
+          return this.state.failed ? null : this.props.children;
+        }
+      }
+
+      const consoleError = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      render(
+        <Boundary>
+          <CounterDisplay counter={counter} />
+          <Thrower />
+        </Boundary>,
+      );
+      consoleError.mockRestore();
+
+      expect(subscriptions.active).toBe(0);
+    });
+
+    it("should re-render when state changes between render and subscription", async () => {
+      const counter = CounterModel.create({ count: 0 });
+
+      function Mutator() {
+        useLayoutEffect(() => {
+          counter.setCount(5);
+        }, []);
+        return null;
+      }
+
+      render(
+        <>
+          <CounterDisplay counter={counter} />
+          <Mutator />
+        </>,
+      );
+
+      await waitFor(() => {
+        expect(screen.getByTestId("count").textContent).toBe("5");
+      });
+    });
+
+    it("should not tear between observers updated in a transition", async () => {
+      const counter = CounterModel.create({ count: 0 });
+      const seen: Array<[string, number]> = [];
+
+      const Reader = observer(function Reader({
+        name,
+        counter,
+      }: {
+        name: string;
+        counter: Instance<typeof CounterModel>;
+      }) {
+        seen.push([name, counter.count]);
+        return <div data-testid={name}>{counter.count}</div>;
+      });
+
+      render(
+        <>
+          <Reader name="a" counter={counter} />
+          <Reader name="b" counter={counter} />
+        </>,
+      );
+
+      await act(async () => {
+        startTransition(() => {
+          counter.increment();
+        });
+        counter.increment();
+      });
+
+      expect(screen.getByTestId("a").textContent).toBe("2");
+      expect(screen.getByTestId("b").textContent).toBe("2");
+      // Both readers always rendered the same value in the same pass
+      const committed = seen.slice(2);
+      for (let i = 0; i < committed.length; i += 2) {
+        expect(committed[i][1]).toBe(committed[i + 1][1]);
+      }
+    });
   });
 
   // ============================================================================
@@ -360,6 +717,30 @@ describe("React Integration", () => {
         expect(screen.getByTestId("snapshot").textContent).toBe("20");
       });
     });
+
+    it("should update when a child node changes", async () => {
+      const list = TodoListModel.create({
+        todos: [{ id: "1", text: "Write docs", completed: false }],
+      });
+
+      function TodoDisplay({ todo }: { todo: Instance<typeof TodoModel> }) {
+        const snapshot = useSnapshot<{ completed: boolean }>(todo);
+        return (
+          <div data-testid="todo">{snapshot.completed ? "done" : "open"}</div>
+        );
+      }
+
+      render(<TodoDisplay todo={list.todos[0]} />);
+      expect(screen.getByTestId("todo").textContent).toBe("open");
+
+      act(() => {
+        list.toggleTodo("1");
+      });
+
+      await waitFor(() => {
+        expect(screen.getByTestId("todo").textContent).toBe("done");
+      });
+    });
   });
 
   // ============================================================================
@@ -528,6 +909,255 @@ describe("React Integration", () => {
     });
   });
 
+  // ============================================================================
+  // useSelector Tests
+  // ============================================================================
+
+  describe("useSelector", () => {
+    it("should re-render only when the selected value changes", async () => {
+      const todoList = TodoListModel.create({
+        todos: [{ id: "1", text: "One", completed: false }],
+      });
+      let renderCount = 0;
+
+      function DoneCount() {
+        renderCount++;
+        const count = useSelector(
+          todoList,
+          (s) => s.todos.filter((t) => t.completed).length,
+        );
+        return <div data-testid="done">{count}</div>;
+      }
+
+      render(<DoneCount />);
+      expect(renderCount).toBe(1);
+
+      act(() => {
+        todoList.addTodo("2", "Two");
+      });
+      expect(renderCount).toBe(1);
+
+      act(() => {
+        todoList.toggleTodo("2");
+      });
+      await waitFor(() => {
+        expect(screen.getByTestId("done").textContent).toBe("1");
+      });
+      expect(renderCount).toBe(2);
+    });
+
+    it("should use a custom equality function", () => {
+      const todoList = TodoListModel.create({
+        todos: [{ id: "1", text: "One", completed: false }],
+      });
+      let renderCount = 0;
+      const selections: string[][] = [];
+
+      function Titles() {
+        renderCount++;
+        const titles = useSelector(
+          todoList,
+          (s) => s.todos.map((t) => t.text),
+          shallowEqual,
+        );
+        selections.push(titles);
+        return <div data-testid="titles">{titles.join(",")}</div>;
+      }
+
+      render(<Titles />);
+
+      act(() => {
+        todoList.toggleTodo("1");
+      });
+      expect(renderCount).toBe(1);
+
+      act(() => {
+        todoList.addTodo("2", "Two");
+      });
+      expect(renderCount).toBe(2);
+      expect(screen.getByTestId("titles").textContent).toBe("One,Two");
+      expect(selections[0]).not.toBe(selections[1]);
+    });
+
+    it("should select views", () => {
+      const todoList = TodoListModel.create({
+        todos: [
+          { id: "1", text: "One", completed: false },
+          { id: "2", text: "Two", completed: true },
+        ],
+      });
+
+      function Pending() {
+        const pending = useSelector(todoList, (s) => s.pendingCount);
+        return <div data-testid="pending">{pending}</div>;
+      }
+
+      render(<Pending />);
+      expect(screen.getByTestId("pending").textContent).toBe("1");
+
+      act(() => {
+        todoList.toggleTodo("2");
+      });
+      expect(screen.getByTestId("pending").textContent).toBe("2");
+    });
+
+    it("should select views over volatile state", () => {
+      const Search = types
+        .model("Search", { items: types.array(types.string) })
+        .volatile(() => ({ query: "" }))
+        .views((self) => ({
+          get matches() {
+            return self.items.filter((item) => item.includes(self.query));
+          },
+        }))
+        .actions((self) => ({
+          setQuery(query: string) {
+            self.query = query;
+          },
+        }));
+      const search = Search.create({ items: ["apple", "banana"] });
+
+      function MatchCount() {
+        const count = useSelector(search, (s) => s.matches.length);
+        return <div data-testid="matches">{count}</div>;
+      }
+
+      render(<MatchCount />);
+      expect(screen.getByTestId("matches").textContent).toBe("2");
+
+      act(() => {
+        search.setQuery("app");
+      });
+      expect(screen.getByTestId("matches").textContent).toBe("1");
+    });
+  });
+
+  // ============================================================================
+  // Property & View Atom Tests
+  // ============================================================================
+
+  describe("property and view atoms", () => {
+    it("should work with useAtom in the tree's store", async () => {
+      const counter = CounterModel.create({ count: 0 });
+      unprotect(counter);
+
+      function Count() {
+        const [count, setCount] = useAtom(getPropertyAtom(counter, "count"), {
+          store: getNodeStore(counter),
+        });
+        return (
+          <button data-testid="count" onClick={() => setCount(count + 10)}>
+            {count}
+          </button>
+        );
+      }
+
+      render(<Count />);
+
+      act(() => {
+        counter.increment();
+      });
+      expect(screen.getByTestId("count").textContent).toBe("1");
+
+      await act(async () => {
+        await userEvent.click(screen.getByTestId("count"));
+      });
+      expect(screen.getByTestId("count").textContent).toBe("11");
+      expect(counter.count).toBe(11);
+    });
+
+    it("should read views with useAtomValue", () => {
+      const todoList = TodoListModel.create({
+        todos: [{ id: "1", text: "One", completed: false }],
+      });
+
+      function Completed() {
+        const completed = useAtomValue(
+          getViewAtom(todoList, "completedCount"),
+          { store: getNodeStore(todoList) },
+        );
+        return <div data-testid="completed">{completed}</div>;
+      }
+
+      render(<Completed />);
+      expect(screen.getByTestId("completed").textContent).toBe("0");
+
+      act(() => {
+        todoList.toggleTodo("1");
+      });
+      expect(screen.getByTestId("completed").textContent).toBe("1");
+    });
+  });
+
+  describe("atomWithTree", () => {
+    it("should give each Jotai Provider its own tree", () => {
+      const counterAtom = atomWithTree(CounterModel, { count: 0 });
+      const trees: Array<Instance<typeof CounterModel>> = [];
+
+      const Counter = observer(function Counter({ name }: { name: string }) {
+        const counter = useAtomValue(counterAtom);
+        if (!trees.includes(counter)) trees.push(counter);
+        return (
+          <button data-testid={name} onClick={() => counter.increment()}>
+            {counter.count}
+          </button>
+        );
+      });
+
+      const storeA = createStore();
+      const { unmount } = render(
+        <>
+          <JotaiProvider store={storeA}>
+            <Counter name="a" />
+          </JotaiProvider>
+          <JotaiProvider>
+            <Counter name="b" />
+          </JotaiProvider>
+        </>,
+      );
+
+      act(() => {
+        screen.getByTestId("a").click();
+      });
+      expect(screen.getByTestId("a").textContent).toBe("1");
+      expect(screen.getByTestId("b").textContent).toBe("0");
+      expect(trees).toHaveLength(2);
+      expect(trees).toContain(storeA.get(counterAtom));
+
+      unmount();
+      expect(trees.every((tree) => !isAlive(tree))).toBe(true);
+    });
+
+    it("should compose tree atoms with atoms of the Provider store", () => {
+      const counterAtom = atomWithTree(CounterModel, { count: 0 });
+      const doubledAtom = atom(
+        (get) => get(getPropertyAtom(get(counterAtom), "count")) * 2,
+      );
+
+      function Doubled() {
+        const counter = useAtomValue(counterAtom);
+        const doubled = useAtomValue(doubledAtom);
+        return (
+          <button data-testid="doubled" onClick={() => counter.increment()}>
+            {doubled}
+          </button>
+        );
+      }
+
+      render(
+        <JotaiProvider>
+          <Doubled />
+        </JotaiProvider>,
+      );
+      expect(screen.getByTestId("doubled").textContent).toBe("0");
+
+      act(() => {
+        screen.getByTestId("doubled").click();
+      });
+      expect(screen.getByTestId("doubled").textContent).toBe("2");
+    });
+  });
+
   // ============================================================================
   // Batch Updates Tests
   // ============================================================================
@@ -549,8 +1179,8 @@ describe("React Integration", () => {
         });
       });
 
-      // Each increment triggers its own snapshot notification
-      // batch() helps with React scheduling, not MST internal notifications
+      // Snapshot listeners (and so observers) are notified once
+      expect(snapshotCallCount).toBe(1);
       expect(counter.count).toBe(3);
     });
   });
@@ -780,6 +1410,40 @@ describe("React Integration", () => {
       });
     });
 
+    it("should support typed useSelector", () => {
+      type TodoListInstance = Instance<typeof TodoListModel>;
+      const TodoContext = createStoreContext<TodoListInstance>();
+
+      const todoList = TodoListModel.create({
+        todos: [{ id: "1", text: "One", completed: false }],
+      });
+      let renderCount = 0;
+
+      function CompletedCount() {
+        renderCount++;
+        // Selector is typed: (store: TodoListInstance) => number
+        const count = TodoContext.useSelector((store) => store.completedCount);
+        return <div data-testid="completed">{count}</div>;
+      }
+
+      render(
+        <TodoContext.Provider store={todoList}>
+          <CompletedCount />
+        </TodoContext.Provider>,
+      );
+
+      act(() => {
+        todoList.addTodo("2", "Two");
+      });
+      expect(renderCount).toBe(1);
+
+      act(() => {
+        todoList.toggleTodo("1");
+      });
+      expect(screen.getByTestId("completed").textContent).toBe("1");
+      expect(renderCount).toBe(2);
+    });
+
     it("should throw when used outside provider", () => {
       function BadComponent() {
         const store = CounterContext.useStore();
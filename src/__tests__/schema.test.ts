@@ -0,0 +1,329 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  types,
+  toJSONSchema,
+  fromJSONSchema,
+  getSnapshot,
+  registerModel,
+  clearModelRegistry,
+} from "../index";
+
+const DIALECT = "https://json-schema.org/draft/2020-12/schema";
+
+describe("toJSONSchema", () => {
+  beforeEach(() => {
+    clearModelRegistry();
+  });
+
+  it("should describe primitives", () => {
+    expect(toJSONSchema(types.string)).toEqual({
+      $schema: DIALECT,
+      type: "string",
+    });
+    expect(toJSONSchema(types.integer)).toEqual({
+      $schema: DIALECT,
+      type: "integer",
+    });
+    expect(toJSONSchema(types.Date)).toEqual({
+      $schema: DIALECT,
+      type: "number",
+    });
+  });
+
+  it("should describe models in $defs", () => {
+    const Todo = types.model("Todo", {
+      id: types.identifier,
+      title: types.string,
+      done: types.optional(types.boolean, false),
+      note: types.maybe(types.string),
+      assignee: types.maybeNull(types.string),
+      tags: types.array(types.string),
+      meta: types.map(types.number),
+    });
+
+    expect(toJSONSchema(Todo)).toEqual({
+      $schema: DIALECT,
+      $ref: "#/$defs/Todo",
+      $defs: {
+        Todo: {
+          type: "object",
+          title: "Todo",
+          properties: {
+            id: { type: "string" },
+            title: { type: "string" },
+            done: { type: "boolean", default: false },
+            note: { type: "string" },
+            assignee: { anyOf: [{ type: "string" }, { type: "null" }] },
+            tags: { type: "array", items: { type: "string" } },
+            meta: { type: "object", additionalProperties: { type: "number" } },
+          },
+          required: ["id", "title", "tags", "meta"],
+        },
+      },
+    });
+  });
+
+  it("should describe unions, literals, enumerations, refinements and frozen", () => {
+    const Shape = types.model("Shape", {
+      kind: types.union(types.literal("circle"), types.literal("square")),
+      color: types.enumeration("Color", ["red", "green"]),
+      size: types.refinement(types.number, (value) => value > 0),
+      data: types.frozen(),
+    });
+
+    expect(toJSONSchema(Shape).$defs!.Shape.properties).toEqual({
+      kind: { anyOf: [{ const: "circle" }, { const: "square" }] },
+      color: { title: "Color", type: "string", enum: ["red", "green"] },
+      size: { type: "number" },
+      data: {},
+    });
+    expect(toJSONSchema(Shape).$defs!.Shape.required).toEqual([
+      "kind",
+      "color",
+      "size",
+    ]);
+  });
+
+  it("should describe recursive models with $ref", () => {
+    const Node: any = types.model("Node", {
+      value: types.string,
+      children: types.array(types.late(() => Node)),
+    });
+
+    expect(toJSONSchema(Node).$defs).toEqual({
+      Node: {
+        type: "object",
+        title: "Node",
+        properties: {
+          value: { type: "string" },
+          children: { type: "array", items: { $ref: "#/$defs/Node" } },
+        },
+        required: ["value", "children"],
+      },
+    });
+  });
+
+  it("should describe references as identifiers of their target", () => {
+    const User = types.model("User", {
+      id: types.identifierNumber,
+      name: types.string,
+    });
+    const Todo = types.model("Todo", {
+      owner: types.reference(User),
+      reviewer: types.safeReference(User),
+    });
+
+    const schema = toJSONSchema(Todo);
+
+    expect(schema.$defs!.Todo.properties).toEqual({
+      owner: { type: "number", "x-reference": "User" },
+      reviewer: { type: "number", "x-reference": "User" },
+    });
+    expect(schema.$defs!.Todo.required).toEqual(["owner"]);
+    expect(schema.$defs!.User).toBeUndefined();
+  });
+
+  it("should describe registry models and dynamic references", () => {
+    const Author = types.model("Author", { id: types.identifier });
+    registerModel("Author", Author);
+    const Book = types.model("Book", {
+      author: types.lateModel("Author"),
+      editor: types.dynamicReference("Author"),
+    });
+
+    const schema = toJSONSchema(Book);
+
+    expect(schema.$defs!.Book.properties).toEqual({
+      author: { $ref: "#/$defs/Author" },
+      editor: { type: ["string", "number"], "x-reference": "Author" },
+    });
+    expect(schema.$defs!.Author).toBeDefined();
+  });
+
+  it("should number models sharing a name", () => {
+    const A = types.model("Item", { a: types.string });
+    const B = types.model("Item", { b: types.string });
+    const Pair = types.model("Pair", { first: A, second: B });
+
+    const schema = toJSONSchema(Pair);
+
+    expect(schema.$defs!.Pair.properties).toEqual({
+      first: { $ref: "#/$defs/Item" },
+      second: { $ref: "#/$defs/Item2" },
+    });
+  });
+
+  it("should describe the version of versioned models", () => {
+    const Settings = types
+      .model("Settings", { theme: types.string })
+      .version(2);
+
+    expect(toJSONSchema(Settings).$defs!.Settings.properties).toEqual({
+      $version: { type: "integer", minimum: 0, maximum: 2 },
+      theme: { type: "string" },
+    });
+  });
+
+  it("should reject recursion that never reaches a model", () => {
+    const Nested: any = types.array(types.late("Nested", () => Nested));
+
+    expect(() => toJSONSchema(Nested)).toThrow(
+      "[jotai-state-tree] Cannot describe 'Nested' in JSON Schema",
+    );
+  });
+});
+
+describe("fromJSONSchema", () => {
+  it("should build models with required and optional properties", () => {
+    const Todo = fromJSONSchema({
+      type: "object",
+      title: "Todo",
+      properties: {
+        title: { type: "string" },
+        done: { type: "boolean", default: false },
+        note: { type: "string" },
+        assignee: { type: ["string", "null"] },
+        tags: { type: "array", items: { type: "string" } },
+      },
+      required: ["title", "tags"],
+    });
+
+    expect(Todo.name).toBe("Todo");
+    const todo = Todo.create({ title: "Write docs", tags: [] }) as any;
+    expect(todo.done).toBe(false);
+    expect(todo.note).toBeUndefined();
+    expect(todo.assignee).toBeNull();
+    expect(() => Todo.create({ tags: [] })).toThrow();
+  });
+
+  it("should build maps, unions, enumerations and literals", () => {
+    const Shape = fromJSONSchema({
+      type: "object",
+      properties: {
+        kind: { anyOf: [{ const: "circle" }, { const: "square" }] },
+        color: { title: "Color", enum: ["red", "green"] },
+        size: { oneOf: [{ type: "number" }, { type: "string" }] },
+        labels: { type: "object", additionalProperties: { type: "string" } },
+      },
+      required: ["kind", "color", "size", "labels"],
+    });
+
+    const shape = Shape.create({
+      kind: "circle",
+      color: "red",
+      size: "large",
+      labels: { en: "Circle" },
+    }) as any;
+    expect(shape.labels.get("en")).toBe("Circle");
+    expect(
+      Shape.validate({ ...getSnapshot(shape), kind: "oval" }, []).valid,
+    ).toBe(false);
+    expect(
+      Shape.validate({ ...getSnapshot(shape), color: "blue" }, []).valid,
+    ).toBe(false);
+  });
+
+  it("should refine types with validation keywords", () => {
+    const Name = fromJSONSchema({
+      type: "string",
+      minLength: 2,
+      pattern: "^[A-Z]",
+    });
+    const Score = fromJSONSchema({ type: "integer", minimum: 0, maximum: 10 });
+
+    expect(Name.create("Ada")).toBe("Ada");
+    expect(() => Name.create("A")).toThrow(
+      'Value "A" must be at least 2 characters long',
+    );
+    expect(Name.validate("ada", []).valid).toBe(false);
+    expect(Score.validate(10, []).valid).toBe(true);
+    expect(Score.validate(11, []).valid).toBe(false);
+    expect(Score.validate(1.5, []).valid).toBe(false);
+  });
+
+  it("should resolve $ref and $defs through late types", () => {
+    const Node = fromJSONSchema({
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      $ref: "#/$defs/Node",
+      $defs: {
+        Node: {
+          type: "object",
+          properties: {
+            value: { type: "string" },
+            children: { type: "array", items: { $ref: "#/$defs/Node" } },
+          },
+          required: ["value", "children"],
+        },
+      },
+    });
+
+    expect(Node._kind).toBe("model");
+    expect(Node.name).toBe("Node");
+    const tree = Node.create({
+      value: "root",
+      children: [{ value: "leaf", children: [] }],
+    }) as any;
+    expect(tree.children[0].value).toBe("leaf");
+    expect(getSnapshot(tree.children[0])).toEqual({
+      value: "leaf",
+      children: [],
+    });
+  });
+
+  it("should resolve references to the document itself", () => {
+    const Category = fromJSONSchema({
+      type: "object",
+      title: "Category",
+      properties: {
+        name: { type: "string" },
+        parent: { $ref: "#" },
+      },
+      required: ["name"],
+    });
+
+    const category = Category.create({
+      name: "Books",
+      parent: { name: "Media" },
+    }) as any;
+    expect(category.parent.name).toBe("Media");
+    expect(category.parent.parent).toBeUndefined();
+  });
+
+  it("should round-trip toJSONSchema", () => {
+    const Todo: any = types.model("Todo", {
+      id: types.identifier,
+      title: types.string,
+      done: types.optional(types.boolean, false),
+      priority: types.enumeration("Priority", ["low", "high"]),
+      subtasks: types.array(types.late(() => Todo)),
+    });
+    const snapshot = {
+      id: "1",
+      title: "Ship",
+      done: true,
+      priority: "high",
+      subtasks: [
+        { id: "2", title: "Test", done: false, priority: "low", subtasks: [] },
+      ],
+    };
+
+    const Generated = fromJSONSchema(toJSONSchema(Todo));
+
+    expect(getSnapshot(Generated.create(snapshot))).toEqual(snapshot);
+    expect(toJSONSchema(Generated)).toEqual(toJSONSchema(Todo));
+  });
+
+  it("should reject schemas types can't describe", () => {
+    expect(() =>
+      fromJSONSchema({
+        type: "object",
+        properties: { a: { allOf: [{ type: "string" }] } },
+      }),
+    ).toThrow(
+      "[jotai-state-tree] Unsupported JSON Schema at '#/properties/a': 'allOf' can't be described by a type",
+    );
+    expect(() =>
+      fromJSONSchema({ $ref: "https://example.com/todo.json" }),
+    ).toThrow("only references within the schema are supported");
+  });
+});
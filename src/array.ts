@@ -5,23 +5,40 @@
 import { atom } from "jotai";
 import type {
   IArrayType,
+  IJsonPatch,
+  IReversibleJsonPatch,
   IMSTArray,
   IType,
   IValidationContext,
   IValidationResult,
   IAnyType,
+  ICreateOptions,
+  StandardSchemaV1Props,
 } from "./types";
 import {
   StateTreeNode,
   $treenode,
   getStateTreeNode,
+  getSnapshotFromNode,
+  applySnapshotToNode,
+  canReconcileNode,
+  hasStateTreeNode,
   getGlobalStore,
+  runWithCreationStore,
+  assertWritable,
+  assertAlive,
+  runAtSnapshotPath,
+  getStandardSchema,
 } from "./tree";
 
 // ============================================================================
 // MST Array Implementation
 // ============================================================================
 
+function isArrayIndex(prop: string | symbol): boolean {
+  return typeof prop === "string" && String(Number(prop) >>> 0) === prop;
+}
+
 class MSTArray<T> extends Array<T> implements IMSTArray<T> {
   private node: StateTreeNode;
   private itemType: IAnyType;
@@ -30,98 +47,145 @@ class MSTArray<T> extends Array<T> implements IMSTArray<T> {
     super(...items);
     this.node = node;
     this.itemType = itemType;
+    node.reconcileSnapshot = (snapshot) => this.reconcile(snapshot as T[]);
 
     // Set prototype correctly for extending Array
     Object.setPrototypeOf(this, MSTArray.prototype);
+
+    // Index access and length are own properties, so reads (including the
+    // ones inherited iteration methods make) are checked for liveliness
+    // through a proxy. Our own methods run against the array itself, which
+    // keeps splicing from going through the traps element by element.
+    const methods = new Map<PropertyKey, Function>();
+    return new Proxy(this, {
+      get(target, prop, receiver) {
+        if (prop === "length" || isArrayIndex(prop)) {
+          assertAlive(node, "read", String(prop));
+          return target[prop as keyof typeof target];
+        }
+        const value = Reflect.get(target, prop, receiver);
+        if (
+          typeof value !== "function" ||
+          prop === "constructor" ||
+          !Object.prototype.hasOwnProperty.call(MSTArray.prototype, prop)
+        ) {
+          return value;
+        }
+        let method = methods.get(prop);
+        if (!method) {
+          method = (...args: unknown[]) => {
+            const result = value.apply(target, args);
+            return result === target ? receiver : result;
+          };
+          methods.set(prop, method);
+        }
+        return method;
+      },
+      set(target, prop, value, receiver) {
+        if (!isArrayIndex(prop)) {
+          return Reflect.set(target, prop, value, receiver);
+        }
+        // Index writes are a splice, so they are guarded and emit a patch
+        target.assertMutable("set");
+        const index = Number(prop);
+        if (index > target.length) {
+          throw new Error(
+            `[jotai-state-tree] Index ${index} is out of bounds of an array of length ${target.length}`,
+          );
+        }
+        target.spliceItems(index, index < target.length ? 1 : 0, [value]);
+        return true;
+      },
+    });
+  }
+
+  // Derived arrays (map, filter, slice, ...) are plain arrays without a node
+  static get [Symbol.species](): ArrayConstructor {
+    return Array;
   }
 
   replace(items: T[]): void {
-    this.length = 0;
-    this.push(...items);
-    this.syncToNode();
+    this.assertMutable("replace");
+    this.spliceItems(0, this.length, items);
   }
 
   clear(): void {
-    this.length = 0;
-    this.syncToNode();
+    this.assertMutable("clear");
+    this.spliceItems(0, this.length, []);
   }
 
   remove(item: T): boolean {
+    this.assertMutable("remove");
     const index = this.indexOf(item);
     if (index >= 0) {
-      this.splice(index, 1);
-      this.syncToNode();
+      this.spliceItems(index, 1, []);
       return true;
     }
     return false;
   }
 
   spliceWithArray(index: number, deleteCount?: number, newItems?: T[]): T[] {
-    const result =
-      deleteCount !== undefined
-        ? newItems
-          ? this.splice(index, deleteCount, ...newItems)
-          : this.splice(index, deleteCount)
-        : this.splice(index);
-    this.syncToNode();
-    return result;
+    this.assertMutable("spliceWithArray");
+    return this.spliceItems(index, deleteCount, newItems ?? []);
   }
 
   // Override mutating methods to sync
   push(...items: T[]): number {
-    const result = super.push(...items);
-    this.syncToNode();
-    return result;
+    this.assertMutable("push");
+    this.spliceItems(this.length, 0, items);
+    return this.length;
   }
 
   pop(): T | undefined {
-    const result = super.pop();
-    this.syncToNode();
-    return result;
+    this.assertMutable("pop");
+    return this.spliceItems(this.length - 1, 1, [])[0];
   }
 
   shift(): T | undefined {
-    const result = super.shift();
-    this.syncToNode();
-    return result;
+    this.assertMutable("shift");
+    return this.spliceItems(0, 1, [])[0];
   }
 
   unshift(...items: T[]): number {
-    const result = super.unshift(...items);
-    this.syncToNode();
-    return result;
+    this.assertMutable("unshift");
+    this.spliceItems(0, 0, items);
+    return this.length;
   }
 
   splice(start: number, deleteCount?: number, ...items: T[]): T[] {
-    const result =
-      deleteCount !== undefined
-        ? super.splice(start, deleteCount, ...items)
-        : super.splice(start);
-    this.syncToNode();
-    return result;
+    this.assertMutable("splice");
+    return this.spliceItems(start, deleteCount, items);
   }
 
   sort(compareFn?: (a: T, b: T) => number): this {
+    this.assertMutable("sort");
+    const oldSnapshot = getSnapshotFromNode(this.node);
     super.sort(compareFn);
-    this.syncToNode();
+    this.syncToNode(oldSnapshot);
     return this;
   }
 
   reverse(): T[] {
+    this.assertMutable("reverse");
+    const oldSnapshot = getSnapshotFromNode(this.node);
     super.reverse();
-    this.syncToNode();
+    this.syncToNode(oldSnapshot);
     return this;
   }
 
   fill(value: T, start?: number, end?: number): this {
+    this.assertMutable("fill");
+    const oldSnapshot = getSnapshotFromNode(this.node);
     super.fill(value, start, end);
-    this.syncToNode();
+    this.syncToNode(oldSnapshot);
     return this;
   }
 
   copyWithin(target: number, start: number, end?: number): this {
+    this.assertMutable("copyWithin");
+    const oldSnapshot = getSnapshotFromNode(this.node);
     super.copyWithin(target, start, end);
-    this.syncToNode();
+    this.syncToNode(oldSnapshot);
     return this;
   }
 
@@ -129,60 +193,230 @@ class MSTArray<T> extends Array<T> implements IMSTArray<T> {
     return [...this];
   }
 
-  private syncToNode(): void {
+  private assertMutable(operation: string): void {
+    assertAlive(this.node, operation);
+    assertWritable(this.node, operation);
+  }
+
+  /** Turn an item (instance or snapshot) into the stored value and its child node */
+  private createItem(item: T): { value: T; node: StateTreeNode } {
+    // Check if item is a complex type (has tree node) - handles late/maybe wrappers too
+    if (item && typeof item === "object" && $treenode in item) {
+      return { value: item, node: getStateTreeNode(item) };
+    }
+    // Create an instance - it might be a late/maybe type that creates complex instances
+    const instance = this.itemType.create(item, this.node.$env) as T;
+    if (instance && typeof instance === "object" && $treenode in instance) {
+      return { value: instance, node: getStateTreeNode(instance) };
+    }
+    return {
+      value: instance,
+      node: new StateTreeNode(this.itemType, instance, this.node.$env),
+    };
+  }
+
+  /**
+   * Splice items and emit one add / remove / replace patch per affected index.
+   * Children before `start` are untouched, later children keep their nodes.
+   */
+  private spliceItems(
+    start: number,
+    deleteCount: number | undefined,
+    items: T[],
+  ): T[] {
+    const length = this.length;
+    start =
+      start < 0 ? Math.max(length + start, 0) : Math.min(start, length);
+    deleteCount = Math.min(
+      Math.max(deleteCount ?? length - start, 0),
+      length - start,
+    );
+
+    const children = this.node.getChildren();
+    const oldNodes: StateTreeNode[] = [];
+    for (let i = 0; i < length; i++) {
+      oldNodes.push(children.get(String(i))!);
+    }
+    const removedNodes = oldNodes.slice(start, start + deleteCount);
+    const removedSnapshots = removedNodes.map((node) =>
+      getSnapshotFromNode(node),
+    );
+
+    const created = items.map((item) => this.createItem(item));
+    const removed = super.splice(
+      start,
+      deleteCount,
+      ...created.map((item) => item.value),
+    );
+
+    // Re-key the children from `start` on
+    const newNodes = [
+      ...oldNodes.slice(0, start),
+      ...created.map((item) => item.node),
+      ...oldNodes.slice(start + deleteCount),
+    ];
+    // Destroy children that are no longer in the array first, so new items
+    // may reuse their identifiers
+    const kept = new Set(newNodes);
+    for (const node of removedNodes) {
+      if (!kept.has(node)) {
+        node.destroy();
+      }
+    }
+
+    for (let i = start; i < length; i++) {
+      children.delete(String(i));
+    }
+    for (let i = start; i < newNodes.length; i++) {
+      this.node.addChild(String(i), newNodes[i]);
+    }
+
+    // Overlapping positions are replaced, the rest removed or added
+    const basePath = this.node.$path;
+    const common = Math.min(deleteCount, created.length);
+    const patches: Array<[IJsonPatch, IReversibleJsonPatch]> = [];
+    for (let k = 0; k < deleteCount; k++) {
+      const path = `${basePath}/${start + Math.min(k, common)}`;
+      const oldValue = removedSnapshots[k];
+      patches.push(
+        k < common
+          ? [
+              {
+                op: "replace",
+                path,
+                value: getSnapshotFromNode(created[k].node),
+              },
+              { op: "replace", path, value: oldValue, oldValue },
+            ]
+          : [
+              { op: "remove", path },
+              { op: "add", path, value: oldValue, oldValue },
+            ],
+      );
+    }
+    for (let k = common; k < created.length; k++) {
+      const path = `${basePath}/${start + k}`;
+      patches.push([
+        { op: "add", path, value: getSnapshotFromNode(created[k].node) },
+        { op: "remove", path },
+      ]);
+    }
+
+    this.node.setValue([...this], patches);
+    return removed;
+  }
+
+  /**
+   * Apply a snapshot, keeping the instances of matching items: first the item
+   * at the same index, then any item with the same identifier. Other items are
+   * created, and items left over are destroyed.
+   */
+  private reconcile(snapshot: T[]): void {
+    const oldSnapshot = getSnapshotFromNode(this.node);
+    const children = this.node.getChildren();
+    const oldNodes: StateTreeNode[] = [];
+    const nodesById = new Map<string, StateTreeNode>();
+    for (let i = 0; i < this.length; i++) {
+      const child = children.get(String(i))!;
+      oldNodes.push(child);
+      if (child.identifierValue !== undefined) {
+        nodesById.set(String(child.identifierValue), child);
+      }
+    }
+
+    const available = new Set(oldNodes);
+    const findMatch = (item: T, index: number) => {
+      const candidates = [oldNodes[index]];
+      if (item && typeof item === "object") {
+        if ($treenode in item) {
+          candidates.push(getStateTreeNode(item));
+        } else if (this.itemType.identifierAttribute) {
+          const id = (item as Record<string, unknown>)[
+            this.itemType.identifierAttribute
+          ];
+          candidates.push(nodesById.get(String(id))!);
+        }
+      }
+      return candidates.find(
+        (node) => node && available.has(node) && canReconcileNode(node, item),
+      );
+    };
+
+    const created = snapshot.map((item, index) => {
+      const match = findMatch(item, index);
+      if (!match) {
+        return runAtSnapshotPath(String(index), () => this.createItem(item));
+      }
+      available.delete(match);
+      if (!hasStateTreeNode(item) && getSnapshotFromNode(match) !== item) {
+        applySnapshotToNode(match, item);
+      }
+      return {
+        value: (match.getInstance() ?? match.getValue()) as T,
+        node: match,
+      };
+    });
+
+    // Destroy children that did not match any item
+    for (const node of available) {
+      node.destroy();
+    }
+
+    super.splice(0, this.length, ...created.map((item) => item.value));
+    children.clear();
+    created.forEach(({ node }, index) => {
+      this.node.addChild(String(index), node);
+    });
+
+    const path = this.node.$path;
+    const value = Object.freeze(
+      created.map(({ node }) => getSnapshotFromNode(node)),
+    );
+    this.node.setValue(
+      [...this],
+      [
+        [
+          { op: "replace", path, value },
+          { op: "replace", path, value: oldSnapshot, oldValue: oldSnapshot },
+        ],
+      ],
+    );
+  }
+
+  /** Rebuild all children after a reorder and emit a single replace of the array */
+  private syncToNode(oldSnapshot: unknown): void {
     // Collect existing child nodes for cleanup comparison
     const existingChildNodes = new Set<StateTreeNode>();
     for (const [, child] of this.node.getChildren()) {
       existingChildNodes.add(child);
     }
 
-    const newChildren = new Map<string, StateTreeNode>();
+    const newChildren: StateTreeNode[] = [];
     const keptNodes = new Set<StateTreeNode>();
 
-    // Create new children for each item
     this.forEach((item, index) => {
-      const key = String(index);
-      // Check if item is a complex type (has tree node) - handles late/maybe wrappers too
       if (item && typeof item === "object" && $treenode in item) {
         const childNode = getStateTreeNode(item);
-        newChildren.set(key, childNode);
+        newChildren.push(childNode);
         keptNodes.add(childNode);
-      } else {
-        // Try creating an instance - it might be a late/maybe type that creates complex instances
-        const instance = this.itemType.create(item);
-        if (instance && typeof instance === "object" && $treenode in instance) {
-          const childNode = getStateTreeNode(instance);
-          newChildren.set(key, childNode);
-          keptNodes.add(childNode);
-          // Update array with proper instance
-          (this as unknown as unknown[])[index] = instance;
-        } else {
-          // Primitive types - try to find existing node with same value
-          let reusedNode: StateTreeNode | null = null;
-          for (const existingNode of existingChildNodes) {
-            if (
-              !keptNodes.has(existingNode) &&
-              existingNode.getValue() === item
-            ) {
-              reusedNode = existingNode;
-              break;
-            }
-          }
-
-          if (reusedNode) {
-            newChildren.set(key, reusedNode);
-            keptNodes.add(reusedNode);
-          } else {
-            const childNode = new StateTreeNode(
-              this.itemType,
-              item,
-              this.node.$env,
-            );
-            newChildren.set(key, childNode);
-            keptNodes.add(childNode);
-          }
+        return;
+      }
+
+      // Primitive types - try to find existing node with same value
+      let reusedNode: StateTreeNode | null = null;
+      for (const existingNode of existingChildNodes) {
+        if (!keptNodes.has(existingNode) && existingNode.getValue() === item) {
+          reusedNode = existingNode;
+          break;
         }
       }
+
+      const { value, node } = reusedNode
+        ? { value: item, node: reusedNode }
+        : runAtSnapshotPath(String(index), () => this.createItem(item));
+      (this as unknown as unknown[])[index] = value;
+      newChildren.push(node);
+      keptNodes.add(node);
     });
 
     // Destroy children that are no longer in the array
@@ -194,12 +428,21 @@ class MSTArray<T> extends Array<T> implements IMSTArray<T> {
 
     // Clear and set new children
     this.node.getChildren().clear();
-    for (const [key, childNode] of newChildren) {
-      this.node.addChild(key, childNode);
-    }
+    newChildren.forEach((childNode, index) => {
+      this.node.addChild(String(index), childNode);
+    });
 
-    // Update the node's value
-    this.node.setValue([...this]);
+    const path = this.node.$path;
+    const value = Object.freeze(newChildren.map(getSnapshotFromNode));
+    this.node.setValue(
+      [...this],
+      [
+        [
+          { op: "replace", path, value },
+          { op: "replace", path, value: oldSnapshot, oldValue: oldSnapshot },
+        ],
+      ],
+    );
   }
 }
 
@@ -219,6 +462,10 @@ class ArrayType<T extends IAnyType> implements IArrayType<T> {
     T extends IType<infer C, unknown, unknown> ? C : never
   >;
 
+  get "~standard"(): StandardSchemaV1Props<this["_C"]> {
+    return getStandardSchema(this);
+  }
+
   constructor(itemType: T) {
     this._subType = itemType;
     this.name = `array<${itemType.name}>`;
@@ -227,10 +474,17 @@ class ArrayType<T extends IAnyType> implements IArrayType<T> {
   create(
     snapshot?: Array<T extends IType<infer C, unknown, unknown> ? C : never>,
     env?: unknown,
+    options?: ICreateOptions,
   ): IMSTArray<
     T extends IType<unknown, unknown, infer I> ? I : never,
     T extends IType<infer C, unknown, unknown> ? C : never
   > {
+    if (options?.store) {
+      return runWithCreationStore(options.store, () =>
+        this.create(snapshot, env),
+      );
+    }
+
     const items = snapshot ?? [];
 
     // Create tree node
@@ -238,7 +492,9 @@ class ArrayType<T extends IAnyType> implements IArrayType<T> {
 
     // Create instances for each item
     const instances = items.map((item, index) => {
-      const instance = this._subType.create(item, env);
+      const instance = runAtSnapshotPath(String(index), () =>
+        this._subType.create(item, env),
+      );
 
       // Check if the instance has a tree node (complex type, including via late/maybe wrappers)
       if (instance && typeof instance === "object" && $treenode in instance) {
@@ -308,7 +564,10 @@ class ArrayType<T extends IAnyType> implements IArrayType<T> {
     // Validate each item
     value.forEach((item, index) => {
       const itemContext: IValidationContext = {
-        path: context.length > 0 ? `${context[0].path}/${index}` : `/${index}`,
+        path:
+          context.length > 0
+            ? `${context[context.length - 1].path}/${index}`
+            : `/${index}`,
         type: this._subType,
         parent: value,
       };
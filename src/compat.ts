@@ -4,7 +4,7 @@
  */
 
 import type { IAnyType, IType, IAnyModelType, Instance, SnapshotIn } from './types';
-import { getStateTreeNode, hasStateTreeNode, getSnapshot, resolveIdentifier } from './tree';
+import { getStateTreeNode, hasStateTreeNode, getSnapshot, resolveIdentifier, getStandardSchema } from './tree';
 
 // ============================================================================
 // Type Utilities
@@ -190,11 +190,15 @@ export function nullable<T extends IAnyType>(type: T): IType<
     _S: undefined as unknown as (T extends IType<unknown, infer S, unknown> ? S : never) | null | undefined,
     _T: undefined as unknown as (T extends IType<unknown, unknown, infer I> ? I : never) | null | undefined,
 
-    create(snapshot, env) {
+    get '~standard'() {
+      return getStandardSchema(this);
+    },
+
+    create(snapshot, env, options) {
       if (snapshot === null || snapshot === undefined) {
         return snapshot as unknown as (T extends IType<unknown, unknown, infer I> ? I : never) | null | undefined;
       }
-      return type.create(snapshot, env) as (T extends IType<unknown, unknown, infer I> ? I : never) | null | undefined;
+      return type.create(snapshot, env, options) as (T extends IType<unknown, unknown, infer I> ? I : never) | null | undefined;
     },
 
     is(value): value is (T extends IType<unknown, unknown, infer I> ? I : never) | null | undefined {
@@ -58,6 +58,15 @@ export type {
   IValidationResult,
   IValidationError,
 
+  // Standard Schema
+  StandardSchemaV1,
+  StandardSchemaV1Props,
+  StandardSchemaV1Result,
+  StandardSchemaV1Issue,
+  StandardSchemaV1PathSegment,
+  StandardSchemaV1Input,
+  StandardSchemaV1Output,
+
   // Options types
   ReferenceOptions,
   UnionOptions,
@@ -65,6 +74,22 @@ export type {
 
   // Disposer
   IDisposer,
+
+  // Liveliness
+  LivelinessMode,
+
+  // Views & actions
+  IViewsOptions,
+  IMemoOptions,
+  ISnapshotMigrations,
+  IActionsOptions,
+
+  // Creation
+  ICreateOptions,
+  JotaiStore,
+
+  // References
+  ReferenceResolver,
 } from "./types";
 
 // ============================================================================
@@ -85,6 +110,7 @@ import {
   enumeration,
   frozen,
   custom,
+  fromStandardSchema,
   finite,
   float,
 } from "./primitives";
@@ -95,6 +121,8 @@ import {
 
 import { model, compose, mixin } from "./model";
 
+export { memo } from "./model";
+
 // ============================================================================
 // Collection Types
 // ============================================================================
@@ -139,6 +167,13 @@ import {
   type DynamicReferenceOptions,
 } from "./registry";
 
+// ============================================================================
+// Flow Internals
+// ============================================================================
+
+import { getStateTreeNode, hasStateTreeNode, trackAction } from "./tree";
+import { getRunningMiddlewareEvent } from "./lifecycle";
+
 // ============================================================================
 // Types Namespace (MST Compatible)
 // ============================================================================
@@ -172,6 +207,7 @@ export const types = {
 
   // Custom
   custom,
+  fromStandardSchema,
 
   // Model
   model,
@@ -233,6 +269,7 @@ export {
 
   // Custom
   custom,
+  fromStandardSchema,
 
   // Model
   model,
@@ -326,6 +363,7 @@ export {
   resolvePath,
   tryResolve,
   resolveIdentifier,
+  registerReferenceResolver,
 
   // Members
   getMembers,
@@ -334,6 +372,10 @@ export {
   getGlobalStore,
   setGlobalStore,
   resetGlobalStore,
+  getNodeStore,
+  getPropertyAtom,
+  getViewAtom,
+  atomWithTree,
 
   // Advanced tree utilities
   getRelativePath,
@@ -356,6 +398,20 @@ export {
 
   // Lifecycle subscriptions
   onLifecycleChange,
+
+  // Liveliness checking
+  setLivelinessChecking,
+  getLivelinessChecking,
+
+  // Transactions & batching
+  transaction,
+  runInAction,
+
+  // Path utilities
+  escapeJsonPath,
+  unescapeJsonPath,
+  splitJsonPath,
+  joinJsonPath,
 } from "./tree";
 
 // ============================================================================
@@ -374,12 +430,6 @@ export {
   protect,
   unprotect,
   isProtected,
-
-  // Path utilities
-  escapeJsonPath,
-  unescapeJsonPath,
-  splitJsonPath,
-  joinJsonPath,
 } from "./lifecycle";
 
 export type {
@@ -432,35 +482,142 @@ export {
 /**
  * Creates an async action (generator function) that can be yielded.
  * Compatible with MST's flow().
+ *
+ * When invoked as an action, the flow is bound to the owning node: spawning
+ * and every resume run as actions on that node, so they pass through
+ * middleware (as flow_spawn, flow_resume, flow_resume_error, flow_return and
+ * flow_throw events sharing one id) and are reported to onAction/recordActions.
  */
 export function flow<Args extends unknown[], R>(
   generator: (...args: Args) => Generator<Promise<unknown>, R, unknown>,
 ): (...args: Args) => Promise<R> {
-  return function flowAction(...args: Args): Promise<R> {
-    const gen = generator(...args);
-
-    function step(
-      nextFn: () => IteratorResult<Promise<unknown>, R>,
-    ): Promise<R> {
-      let result: IteratorResult<Promise<unknown>, R>;
-      try {
-        result = nextFn();
-      } catch (e) {
-        return Promise.reject(e);
-      }
+  return function flowAction(this: unknown, ...args: Args): Promise<R> {
+    const spawnerEvent = getRunningMiddlewareEvent();
 
-      if (result.done) {
-        return Promise.resolve(result.value);
-      }
+    // Outside of an action there is no owning node - just step the generator
+    if (!spawnerEvent || !hasStateTreeNode(spawnerEvent.context)) {
+      return runDetachedFlow(generator.apply(this, args));
+    }
 
-      return Promise.resolve(result.value).then(
-        (value) => step(() => gen.next(value)),
-        (error) => step(() => gen.throw(error)),
+    const node = getStateTreeNode(spawnerEvent.context);
+    const name = spawnerEvent.name;
+    let flowId: number | undefined;
+
+    // Run one step of the flow as an action on the owning node
+    const runStep = (
+      type: "flow_spawn" | FlowStepType,
+      stepArgs: unknown[],
+      fn: (stepArgs: unknown[]) => void,
+    ): { ran: boolean; value: unknown } => {
+      let ran = false;
+      const value = trackAction(
+        node,
+        name,
+        stepArgs,
+        (callArgs) => {
+          ran = true;
+          return fn(callArgs);
+        },
+        { type, id: flowId, parentEvent: spawnerEvent },
       );
+      return { ran, value };
+    };
+
+    return new Promise<R>((resolve, reject) => {
+      let gen: Generator<Promise<unknown>, R, unknown>;
+
+      // Report the outcome of the flow - aborting it settles with the abort value
+      const settle = (
+        type: "flow_return" | "flow_throw",
+        outcome: unknown,
+        fn: (outcome: unknown) => void,
+      ) => {
+        try {
+          const step = runStep(type, [outcome], ([value]) => fn(value));
+          if (!step.ran) {
+            resolve(step.value as R);
+          }
+        } catch (error) {
+          reject(error);
+        }
+      };
+
+      const advance = (
+        type: "flow_resume" | "flow_resume_error",
+        input: unknown,
+      ) => {
+        let result: IteratorResult<Promise<unknown>, R> | undefined;
+        try {
+          const step = runStep(type, [input], ([value]) => {
+            result =
+              type === "flow_resume" ? gen.next(value) : gen.throw(value);
+          });
+          if (!step.ran) {
+            // Aborted by middleware - settle with the abort value
+            resolve(step.value as R);
+            return;
+          }
+        } catch (error) {
+          settle("flow_throw", error, reject);
+          return;
+        }
+
+        const current = result!;
+        if (current.done) {
+          settle("flow_return", current.value, resolve as (v: unknown) => void);
+          return;
+        }
+
+        Promise.resolve(current.value).then(
+          (value) => advance("flow_resume", value),
+          (error) => advance("flow_resume_error", error),
+        );
+      };
+
+      const spawn = runStep("flow_spawn", args, (spawnArgs) => {
+        flowId = getRunningMiddlewareEvent()?.id;
+        gen = generator.apply(this, spawnArgs as Args);
+        advance("flow_resume", undefined);
+      });
+
+      if (!spawn.ran) {
+        resolve(spawn.value as R);
+      }
+    });
+  };
+}
+
+type FlowStepType =
+  | "flow_resume"
+  | "flow_resume_error"
+  | "flow_return"
+  | "flow_throw";
+
+/** Step a generator to completion without action tracking */
+function runDetachedFlow<R>(
+  gen: Generator<Promise<unknown>, R, unknown>,
+): Promise<R> {
+  function step(
+    nextFn: () => IteratorResult<Promise<unknown>, R>,
+  ): Promise<R> {
+    let result: IteratorResult<Promise<unknown>, R>;
+    try {
+      result = nextFn();
+    } catch (e) {
+      return Promise.reject(e);
     }
 
-    return step(() => gen.next(undefined));
-  };
+    if (result.done) {
+      return Promise.resolve(result.value);
+    }
+
+    return Promise.resolve(result.value).then(
+      (value) => step(() => gen.next(value)),
+      (error) => step(() => gen.throw(error)),
+    );
+  }
+
+  return step(() => gen.next(undefined));
 }
 
 /**
@@ -647,6 +804,33 @@ export type {
   IActionRecording,
 } from "./undo";
 
+// ============================================================================
+// Persistence
+// ============================================================================
+
+export {
+  persist,
+  createMemoryStorage,
+  createWebStorage,
+  createFileStorage,
+} from "./persist";
+
+export type {
+  IPersistStorage,
+  IPersistOptions,
+  IPersistController,
+  PersistStatus,
+  IFileSystem,
+} from "./persist";
+
+// ============================================================================
+// JSON Schema
+// ============================================================================
+
+export { toJSONSchema, fromJSONSchema } from "./schema";
+
+export type { IJsonSchema, JsonSchemaTypeName } from "./schema";
+
 // ============================================================================
 // Re-export for convenience
 // ============================================================================
@@ -8,12 +8,18 @@
  * - All registries automatically clean up when nodes are garbage collected
  */
 
-import type { IDisposer } from "./types";
+import type { Atom } from "jotai";
+import type { IDisposer, JotaiStore } from "./types";
 import {
   StateTreeNode,
   getStateTreeNode,
   registerActionRecorderHook,
+  registerActionMiddlewareHook,
+  registerWriteGuardHook,
+  registerAtomReadHook,
+  splitJsonPath,
   type ActionCall,
+  type ActionCallOptions,
 } from "./tree";
 
 // ============================================================================
@@ -136,81 +142,190 @@ export interface IActionContext {
   parentActionEvent?: IMiddlewareEvent;
 }
 
-// Global middleware stack - these are global handlers, not per-node
-const middlewareStack: IMiddlewareHandler[] = [];
+/** A registered middleware and the options it was added with */
+interface MiddlewareEntry {
+  handler: IMiddlewareHandler;
+  includeHooks: boolean;
+}
+
+/**
+ * Middlewares attached to a node (WeakMap - allows GC).
+ * A middleware only sees events from the subtree of the node it was added to.
+ */
+const nodeMiddlewares = new WeakMap<StateTreeNode, MiddlewareEntry[]>();
 let middlewareIdCounter = 0;
 
+/** The event of the action currently executing, used to link nested actions */
+let runningMiddlewareEvent: IMiddlewareEvent | null = null;
+
+/** Hook names that are filtered out for middlewares added with includeHooks = false */
+const hookActionNames = new Set([
+  "afterCreate",
+  "afterAttach",
+  "beforeDetach",
+  "beforeDestroy",
+]);
+
 /**
- * Add middleware to the global stack
+ * Add middleware to a subtree.
+ * The handler intercepts every action invoked on the target or its descendants.
  */
 export function addMiddleware(
   target: unknown,
   handler: IMiddlewareHandler,
   includeHooks: boolean = true,
 ): IDisposer {
-  middlewareStack.push(handler);
+  const node = getStateTreeNode(target);
+  const entry: MiddlewareEntry = { handler, includeHooks };
+
+  let entries = nodeMiddlewares.get(node);
+  if (!entries) {
+    entries = [];
+    nodeMiddlewares.set(node, entries);
+  }
+  entries.push(entry);
+
   return () => {
-    const index = middlewareStack.indexOf(handler);
-    if (index >= 0) {
-      middlewareStack.splice(index, 1);
+    const currentEntries = nodeMiddlewares.get(node);
+    if (currentEntries) {
+      const index = currentEntries.indexOf(entry);
+      if (index >= 0) {
+        currentEntries.splice(index, 1);
+      }
     }
   };
 }
 
 /**
- * Create a middleware runner
+ * Collect the middlewares that apply to an event on a node,
+ * starting with the node's own and walking up to the root
+ */
+function collectMiddlewares(
+  node: StateTreeNode,
+  event: IMiddlewareEvent,
+): IMiddlewareHandler[] {
+  const handlers: IMiddlewareHandler[] = [];
+  let current: StateTreeNode | null = node;
+  while (current) {
+    const entries = nodeMiddlewares.get(current);
+    if (entries) {
+      for (const entry of entries) {
+        if (!entry.includeHooks && hookActionNames.has(event.name)) {
+          continue;
+        }
+        handlers.push(entry.handler);
+      }
+    }
+    current = current.$parent;
+  }
+  return handlers;
+}
+
+/**
+ * Get the middleware event of the action currently executing, if any
+ */
+export function getRunningMiddlewareEvent(): IMiddlewareEvent | null {
+  return runningMiddlewareEvent;
+}
+
+/**
+ * Create a middleware runner for an action invocation on a node.
+ * The returned function runs `fn` through every middleware that applies,
+ * passing it the (possibly rewritten) call arguments.
  */
 export function createMiddlewareRunner(
   node: StateTreeNode,
   actionName: string,
   args: unknown[],
-): (fn: () => unknown) => unknown {
-  if (middlewareStack.length === 0) {
-    return (fn) => fn();
-  }
-
-  const id = ++middlewareIdCounter;
+  options: ActionCallOptions = {},
+): (fn: (args: unknown[]) => unknown) => unknown {
+  const parentEvent =
+    options.parentEvent ?? runningMiddlewareEvent ?? undefined;
+  const id = options.id ?? ++middlewareIdCounter;
   const event: IMiddlewareEvent = {
-    type: "action",
+    type: options.type ?? "action",
     name: actionName,
     id,
-    parentId: 0,
-    rootId: id,
+    parentId: parentEvent ? parentEvent.id : 0,
+    rootId: parentEvent ? parentEvent.rootId : id,
     context: node.getInstance(),
     tree: node.getRoot().getInstance(),
     args,
+    parentEvent,
   };
+  const handlers = collectMiddlewares(node, event);
+
+  return (fn: (args: unknown[]) => unknown) => {
+    const invoke = (call: IMiddlewareEvent): unknown => {
+      const previous = runningMiddlewareEvent;
+      runningMiddlewareEvent = call;
+      try {
+        return fn(call.args);
+      } finally {
+        runningMiddlewareEvent = previous;
+      }
+    };
 
-  return (fn: () => unknown) => {
-    let index = 0;
-    let aborted = false;
-    let abortValue: unknown;
+    const runHandler = (index: number, call: IMiddlewareEvent): unknown => {
+      if (index >= handlers.length) {
+        return invoke(call);
+      }
 
-    const abort = (value: unknown) => {
-      aborted = true;
-      abortValue = value;
-      return value;
-    };
+      let nextInvoked = false;
+      let abortInvoked = false;
+      let result: unknown;
+
+      const next = (
+        nextCall: IMiddlewareEvent,
+        callback?: (value: unknown) => unknown,
+      ): unknown => {
+        nextInvoked = true;
+        result = runHandler(index + 1, nextCall);
+        if (callback) {
+          result = callback(result);
+        }
+        return result;
+      };
 
-    const next = (
-      call: IMiddlewareEvent,
-      callback?: (value: unknown) => unknown,
-    ): unknown => {
-      if (aborted) return abortValue;
+      const abort = (value: unknown): unknown => {
+        abortInvoked = true;
+        result = value;
+        return value;
+      };
 
-      if (index >= middlewareStack.length) {
-        const result = fn();
-        return callback ? callback(result) : result;
-      }
+      handlers[index](call, next, abort);
 
-      const middleware = middlewareStack[index++];
-      return middleware(call, next, abort);
+      if (!nextInvoked && !abortInvoked) {
+        throw new Error(
+          `[jotai-state-tree] Neither next() nor abort() was called in middleware for action '${call.name}'`,
+        );
+      }
+      return result;
     };
 
-    return next(event);
+    return runHandler(0, event);
   };
 }
 
+// Register the middleware hook with tree.ts
+// This is called at module load time so every tracked action runs through middleware
+registerActionMiddlewareHook(
+  (node: StateTreeNode, call: ActionCall, fn, options) => {
+    const previousContext = currentActionContext;
+    currentActionContext = {
+      name: call.name,
+      args: call.args,
+      tree: node,
+      parentContext: previousContext ?? undefined,
+    };
+    try {
+      return createMiddlewareRunner(node, call.name, call.args, options)(fn);
+    } finally {
+      currentActionContext = previousContext;
+    }
+  },
+);
+
 // ============================================================================
 // Action Tracking Context
 // ============================================================================
@@ -248,6 +363,8 @@ export interface ISerializedActionCall {
   name: string;
   path: string;
   args: unknown[];
+  /** Kind of invocation; flow steps are recorded but not replayed */
+  type?: IMiddlewareEvent["type"];
 }
 
 /**
@@ -304,6 +421,10 @@ export function recordActions(target: unknown): {
     replay: (replayTarget: unknown) => {
       const replayNode = getStateTreeNode(replayTarget);
       for (const action of actions) {
+        // Flow steps are re-created by replaying the flow action itself
+        if (action.type !== undefined && action.type !== "action") {
+          continue;
+        }
         const instance = replayNode.getInstance() as Record<string, Function>;
         if (typeof instance[action.name] === "function") {
           instance[action.name](...action.args);
@@ -338,6 +459,7 @@ registerActionRecorderHook((node: StateTreeNode, call: ActionCall) => {
     name: call.name,
     path: call.path,
     args: call.args,
+    type: call.type,
   };
   notifyActionRecorders(node, action);
 });
@@ -346,30 +468,39 @@ registerActionRecorderHook((node: StateTreeNode, call: ActionCall) => {
 // Protect / Unprotect (WeakSet - allows GC)
 // ============================================================================
 
-const protectedNodes = new WeakSet<StateTreeNode>();
+// Trees are protected by default, so only opted-out roots are tracked
+const unprotectedNodes = new WeakSet<StateTreeNode>();
+
+function getRootNodeForProtection(target: unknown, method: string): StateTreeNode {
+  const node = getStateTreeNode(target);
+  if (node.$parent) {
+    throw new Error(
+      `[jotai-state-tree] \`${method}\` can only be invoked on root nodes`,
+    );
+  }
+  return node;
+}
 
 /**
- * Protect a node from direct mutations outside of actions
+ * Protect a tree from direct mutations outside of actions (the default)
  */
 export function protect(target: unknown): void {
-  const node = getStateTreeNode(target);
-  protectedNodes.add(node);
+  unprotectedNodes.delete(getRootNodeForProtection(target, "protect"));
 }
 
 /**
- * Unprotect a node to allow direct mutations
+ * Unprotect a tree to allow direct mutations
  */
 export function unprotect(target: unknown): void {
-  const node = getStateTreeNode(target);
-  protectedNodes.delete(node);
+  unprotectedNodes.add(getRootNodeForProtection(target, "unprotect"));
 }
 
 /**
- * Check if a node is protected
+ * Check if a node's tree is protected
  */
 export function isProtected(target: unknown): boolean {
   const node = getStateTreeNode(target);
-  return protectedNodes.has(node);
+  return !unprotectedNodes.has(node.getRoot());
 }
 
 /**
@@ -377,7 +508,7 @@ export function isProtected(target: unknown): boolean {
  */
 export function canWrite(node: StateTreeNode): boolean {
   // If not protected, can always write
-  if (!protectedNodes.has(node)) {
+  if (unprotectedNodes.has(node.getRoot())) {
     return true;
   }
 
@@ -385,6 +516,17 @@ export function canWrite(node: StateTreeNode): boolean {
   return currentActionContext !== null;
 }
 
+// Register the write guard with tree.ts
+// Models, arrays and maps call it before every direct mutation
+registerWriteGuardHook((node: StateTreeNode, property: string) => {
+  if (!canWrite(node)) {
+    throw new Error(
+      `[jotai-state-tree] Cannot modify '${property}' on '${node.$type.name}@${node.$path || "/"}', ` +
+        `the object is protected and can only be modified by using an action.`,
+    );
+  }
+});
+
 // ============================================================================
 // Type Checking
 // ============================================================================
@@ -478,7 +620,7 @@ export function applyAction(
   // Navigate to the correct node using path
   let currentNode = node;
   if (action.path) {
-    const parts = action.path.split("/").filter(Boolean);
+    const parts = splitJsonPath(action.path);
     for (const part of parts) {
       const child = currentNode.getChild(part);
       if (!child) {
@@ -498,45 +640,17 @@ export function applyAction(
   return instance[action.name](...action.args);
 }
 
-// ============================================================================
-// Escaping / Unescaping JSON Pointer
-// ============================================================================
-
-/**
- * Escape a JSON pointer segment
- */
-export function escapeJsonPath(path: string): string {
-  return path.replace(/~/g, "~0").replace(/\//g, "~1");
-}
-
-/**
- * Unescape a JSON pointer segment
- */
-export function unescapeJsonPath(path: string): string {
-  return path.replace(/~1/g, "/").replace(/~0/g, "~");
-}
-
-/**
- * Split a path into segments
- */
-export function splitJsonPath(path: string): string[] {
-  return path.split("/").filter(Boolean).map(unescapeJsonPath);
-}
-
-/**
- * Join path segments
- */
-export function joinJsonPath(parts: string[]): string {
-  return parts.map(escapeJsonPath).join("/");
-}
-
 // ============================================================================
 // Dependency Tracking
 // ============================================================================
 
-interface DependencyTracker {
-  track(atom: unknown): void;
-  getTracked(): Set<unknown>;
+export interface DependencyTracker {
+  track(atom: Atom<unknown>, store: JotaiStore): void;
+  getTracked(): Map<Atom<unknown>, JotaiStore>;
+  /** Subscribe to every tracked atom in its store */
+  subscribe(listener: () => void): IDisposer;
+  /** Whether a tracked atom changed since it was tracked */
+  isStale(): boolean;
 }
 
 let currentTracker: DependencyTracker | null = null;
@@ -545,14 +659,32 @@ let currentTracker: DependencyTracker | null = null;
  * Create a dependency tracker
  */
 export function createDependencyTracker(): DependencyTracker {
-  const tracked = new Set<unknown>();
+  const tracked = new Map<Atom<unknown>, JotaiStore>();
+  const trackedValues = new Map<Atom<unknown>, unknown>();
   return {
-    track(atom: unknown) {
-      tracked.add(atom);
+    track(atom: Atom<unknown>, store: JotaiStore) {
+      if (!tracked.has(atom)) {
+        tracked.set(atom, store);
+        trackedValues.set(atom, store.get(atom));
+      }
     },
     getTracked() {
       return tracked;
     },
+    subscribe(listener: () => void) {
+      const disposers = Array.from(tracked, ([atom, store]) =>
+        store.sub(atom, listener),
+      );
+      return () => disposers.forEach((dispose) => dispose());
+    },
+    isStale() {
+      for (const [atom, store] of tracked) {
+        if (!Object.is(store.get(atom), trackedValues.get(atom))) {
+          return true;
+        }
+      }
+      return false;
+    },
   };
 }
 
@@ -575,6 +707,10 @@ export function withDependencyTracking<T>(
 /**
  * Track a dependency
  */
-export function trackDependency(atom: unknown): void {
-  currentTracker?.track(atom);
+export function trackDependency(atom: Atom<unknown>, store: JotaiStore): void {
+  currentTracker?.track(atom, store);
 }
+
+// Register the atom read hook with tree.ts
+// Property, collection and view atoms read by instances report themselves here
+registerAtomReadHook(trackDependency);
@@ -4,16 +4,30 @@
 
 import type {
   IMapType,
+  IJsonPatch,
+  IReversibleJsonPatch,
   IMSTMap,
   IType,
   IValidationContext,
   IValidationResult,
   IAnyType,
+  ICreateOptions,
+  StandardSchemaV1Props,
 } from './types';
 import {
   StateTreeNode,
   $treenode,
   getStateTreeNode,
+  getSnapshotFromNode,
+  applySnapshotToNode,
+  canReconcileNode,
+  hasStateTreeNode,
+  escapeJsonPath,
+  assertWritable,
+  assertAlive,
+  runWithCreationStore,
+  runAtSnapshotPath,
+  getStandardSchema,
 } from './tree';
 
 // ============================================================================
@@ -30,13 +44,14 @@ class MSTMap<V> extends Map<string, V> implements IMSTMap<V> {
     this.node = node;
     this.valueType = valueType;
     this.initialized = true;
-    
-    // Add entries after initialization
+    node.reconcileSnapshot = (snapshot) => this.reconcile(snapshot as Record<string, V>);
+
+    // Add entries after initialization (child nodes are created by MapType)
     if (entries) {
       for (const [key, value] of entries) {
         super.set(key, value);
       }
-      this.syncToNode();
+      this.node.setValue(this.toJSON());
     }
   }
 
@@ -73,15 +88,40 @@ class MSTMap<V> extends Map<string, V> implements IMSTMap<V> {
 
   // Override mutating methods to sync
   set(key: string, value: V): this {
-    super.set(key, value);
-    if (this.initialized) {
-      this.syncToNode();
+    if (!this.initialized) {
+      super.set(key, value);
+      return this;
+    }
+    this.assertMutable('set', key);
+
+    const children = this.node.getChildren();
+    const existing = children.get(key);
+    const entry = this.createEntry(value);
+    if (existing === entry.node) {
+      return this;
     }
+
+    const path = this.getEntryPath(key);
+    const oldValue = existing ? getSnapshotFromNode(existing) : undefined;
+    existing?.destroy();
+    super.set(key, entry.value);
+    this.node.addChild(key, entry.node);
+
+    const newValue = getSnapshotFromNode(entry.node);
+    this.node.setValue(this.toJSON(), [
+      existing
+        ? [
+            { op: 'replace', path, value: newValue },
+            { op: 'replace', path, value: oldValue, oldValue },
+          ]
+        : [{ op: 'add', path, value: newValue }, { op: 'remove', path }],
+    ]);
     return this;
   }
 
   // Override get to return the instance from child node for complex types
   get(key: string): V | undefined {
+    assertAlive(this.node, 'read', key);
     if (this.valueType._kind === 'model' || this.valueType._kind === 'array' || this.valueType._kind === 'map') {
       const childNode = this.node.getChild(key);
       if (childNode) {
@@ -92,72 +132,169 @@ class MSTMap<V> extends Map<string, V> implements IMSTMap<V> {
     return super.get(key);
   }
 
+  has(key: string): boolean {
+    assertAlive(this.node, 'read', key);
+    return super.has(key);
+  }
+
+  get size(): number {
+    assertAlive(this.node, 'read', 'size');
+    return super.size;
+  }
+
+  keys(): MapIterator<string> {
+    assertAlive(this.node, 'read', 'keys');
+    return super.keys();
+  }
+
+  values(): MapIterator<V> {
+    assertAlive(this.node, 'read', 'values');
+    return super.values();
+  }
+
+  entries(): MapIterator<[string, V]> {
+    assertAlive(this.node, 'read', 'entries');
+    return super.entries();
+  }
+
+  [Symbol.iterator](): MapIterator<[string, V]> {
+    return this.entries();
+  }
+
+  forEach(callbackfn: (value: V, key: string, map: Map<string, V>) => void, thisArg?: unknown): void {
+    assertAlive(this.node, 'read', 'forEach');
+    super.forEach(callbackfn, thisArg);
+  }
+
   delete(key: string): boolean {
-    const result = super.delete(key);
-    if (result && this.initialized) {
-      this.syncToNode();
+    if (!this.initialized) {
+      return super.delete(key);
     }
-    return result;
+    this.assertMutable('delete', key);
+    if (!super.has(key)) {
+      return false;
+    }
+
+    const patches = this.removeEntries([key]);
+    this.node.setValue(this.toJSON(), patches);
+    return true;
   }
 
   clear(): void {
-    super.clear();
-    if (this.initialized) {
-      this.syncToNode();
+    if (!this.initialized) {
+      super.clear();
+      return;
     }
+    this.assertMutable('clear');
+    if (super.size === 0) {
+      return;
+    }
+
+    const patches = this.removeEntries([...super.keys()]);
+    this.node.setValue(this.toJSON(), patches);
   }
 
   toJSON(): Record<string, V> {
     const result: Record<string, V> = {};
-    this.forEach((value, key) => {
+    super.forEach((value, key) => {
       result[key] = value;
     });
     return result;
   }
 
-  private syncToNode(): void {
-    // Get current children
-    const existingChildren = new Map(this.node.getChildren());
-    const newChildren = new Map<string, StateTreeNode>();
-
-    // Create new children for each entry
-    this.forEach((value, key) => {
-      if (this.valueType._kind === 'model' || this.valueType._kind === 'array' || this.valueType._kind === 'map') {
-        if (value && typeof value === 'object' && $treenode in value) {
-          const childNode = getStateTreeNode(value);
-          newChildren.set(key, childNode);
-        } else {
-          const childInstance = this.valueType.create(value);
-          const childNode = getStateTreeNode(childInstance);
-          newChildren.set(key, childNode);
-          super.set(key, childInstance as V);
-        }
-      } else {
-        const existingChild = existingChildren.get(key);
-        if (existingChild && existingChild.getValue() === value) {
-          newChildren.set(key, existingChild);
-        } else {
-          const childNode = new StateTreeNode(this.valueType, value, this.node.$env);
-          newChildren.set(key, childNode);
-        }
+  private assertMutable(operation: string, key?: string): void {
+    assertAlive(this.node, operation, key);
+    assertWritable(this.node, key ?? operation);
+  }
+
+  private getEntryPath(key: string): string {
+    return `${this.node.$path}/${escapeJsonPath(key)}`;
+  }
+
+  /** Turn a value (instance or snapshot) into the stored value and its child node */
+  private createEntry(value: V): { value: V; node: StateTreeNode } {
+    if (value && typeof value === 'object' && $treenode in value) {
+      return { value, node: getStateTreeNode(value) };
+    }
+    const instance = this.valueType.create(value, this.node.$env) as V;
+    if (instance && typeof instance === 'object' && $treenode in instance) {
+      return { value: instance, node: getStateTreeNode(instance) };
+    }
+    return { value: instance, node: new StateTreeNode(this.valueType, instance, this.node.$env) };
+  }
+
+  /**
+   * Apply a snapshot, keeping the instances of entries under the same key when
+   * their identifier matches (or their type has none). Other entries are
+   * created, and entries no longer present are destroyed.
+   */
+  private reconcile(snapshot: Record<string, V>): void {
+    const oldSnapshot = getSnapshotFromNode(this.node);
+    const children = this.node.getChildren();
+    const entries = (snapshot instanceof Map ? [...snapshot] : Object.entries(snapshot)) as [string, V][];
+
+    const created = entries.map(([key, value]): [string, { value: V; node: StateTreeNode }] => {
+      const existing = children.get(key);
+      const reusable =
+        existing !== undefined &&
+        (canReconcileNode(existing, value) ||
+          (existing.getInstance() !== undefined &&
+            existing.$type.identifierAttribute === undefined &&
+            !hasStateTreeNode(value) &&
+            typeof value === 'object' &&
+            value !== null));
+      if (!existing || !reusable) {
+        return [key, runAtSnapshotPath(key, () => this.createEntry(value))];
+      }
+      if (!hasStateTreeNode(value) && getSnapshotFromNode(existing) !== value) {
+        applySnapshotToNode(existing, value);
       }
+      return [key, { value: (existing.getInstance() ?? existing.getValue()) as V, node: existing }];
     });
 
-    // Destroy children that are no longer in the map
-    for (const [key, child] of existingChildren) {
-      if (!newChildren.has(key)) {
+    // Destroy children that were not kept
+    const kept = new Set(created.map(([, entry]) => entry.node));
+    for (const child of children.values()) {
+      if (!kept.has(child)) {
         child.destroy();
       }
     }
 
-    // Clear and set new children
-    this.node.getChildren().clear();
-    for (const [key, childNode] of newChildren) {
-      this.node.addChild(key, childNode);
+    super.clear();
+    children.clear();
+    const value: Record<string, unknown> = {};
+    for (const [key, entry] of created) {
+      super.set(key, entry.value);
+      this.node.addChild(key, entry.node);
+      value[key] = getSnapshotFromNode(entry.node);
     }
 
-    // Update node value
-    this.node.setValue(this.toJSON());
+    const path = this.node.$path;
+    this.node.setValue(this.toJSON(), [
+      [
+        { op: 'replace', path, value: Object.freeze(value) },
+        { op: 'replace', path, value: oldSnapshot, oldValue: oldSnapshot },
+      ],
+    ]);
+  }
+
+  /** Remove entries and their child nodes, returning a remove patch per key */
+  private removeEntries(keys: string[]): Array<[IJsonPatch, IReversibleJsonPatch]> {
+    const children = this.node.getChildren();
+    return keys.map((key) => {
+      const path = this.getEntryPath(key);
+      const child = children.get(key);
+      const oldValue = child ? getSnapshotFromNode(child) : super.get(key);
+
+      super.delete(key);
+      children.delete(key);
+      child?.destroy();
+
+      return [
+        { op: 'remove', path },
+        { op: 'add', path, value: oldValue, oldValue },
+      ];
+    });
   }
 }
 
@@ -174,6 +311,10 @@ class MapType<T extends IAnyType> implements IMapType<T> {
   readonly _S!: Record<string, T extends IType<unknown, infer S, unknown> ? S : never>;
   readonly _T!: IMSTMap<T extends IType<unknown, unknown, infer I> ? I : never>;
 
+  get '~standard'(): StandardSchemaV1Props<this['_C']> {
+    return getStandardSchema(this);
+  }
+
   constructor(valueType: T) {
     this._subType = valueType;
     this.name = `map<${valueType.name}>`;
@@ -181,8 +322,13 @@ class MapType<T extends IAnyType> implements IMapType<T> {
 
   create(
     snapshot?: Record<string, T extends IType<infer C, unknown, unknown> ? C : never>,
-    env?: unknown
+    env?: unknown,
+    options?: ICreateOptions
   ): IMSTMap<T extends IType<unknown, unknown, infer I> ? I : never> {
+    if (options?.store) {
+      return runWithCreationStore(options.store, () => this.create(snapshot, env));
+    }
+
     const entries = snapshot ?? {};
 
     // Create tree node
@@ -190,7 +336,7 @@ class MapType<T extends IAnyType> implements IMapType<T> {
 
     // Create instances for each entry
     const instanceEntries: [string, unknown][] = Object.entries(entries).map(([key, value]) => {
-      const instance = this._subType.create(value, env);
+      const instance = runAtSnapshotPath(key, () => this._subType.create(value, env));
 
       // Add as child node
       if (this._subType._kind === 'model' || this._subType._kind === 'array' || this._subType._kind === 'map') {
@@ -249,7 +395,7 @@ class MapType<T extends IAnyType> implements IMapType<T> {
 
     for (const [key, itemValue] of entries) {
       const itemContext: IValidationContext = {
-        path: context.length > 0 ? `${context[0].path}/${key}` : `/${key}`,
+        path: context.length > 0 ? `${context[context.length - 1].path}/${escapeJsonPath(key)}` : `/${escapeJsonPath(key)}`,
         type: this._subType,
         parent: value,
       };
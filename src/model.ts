@@ -8,7 +8,7 @@
  * - No global caches that could accumulate entries
  */
 
-import { atom, type WritableAtom } from "jotai";
+import { atom, type Atom, type WritableAtom } from "jotai";
 import type {
   IModelType,
   ModelProperties,
@@ -25,13 +25,36 @@ import type {
   IAnyType,
   IMixin,
   MixinConfig,
+  IActionsOptions,
+  IViewsOptions,
+  IMemoOptions,
+  ISnapshotMigrations,
+  ICreateOptions,
+  IAnyModelType,
+  ISafeReferenceType,
+  StandardSchemaV1Props,
 } from "./types";
 import {
   StateTreeNode,
   $treenode,
   getStateTreeNode,
   trackAction,
-  getGlobalStore,
+  assertWritable,
+  assertAlive,
+  runWithoutProtection,
+  runWithCreationStore,
+  applySnapshotToNode,
+  transaction,
+  onLifecycleChange,
+  runTrackingView,
+  readNodeAtom,
+  trackNodeAtom,
+  runAtSnapshotPath,
+  getSnapshotPath,
+  SNAPSHOT_VERSION_KEY,
+  getStandardSchema,
+  escapeJsonPath,
+  resolveReferenceTarget,
 } from "./tree";
 
 // ============================================================================
@@ -90,10 +113,63 @@ class LRUCache<K, V> {
   }
 }
 
+// ============================================================================
+// Memoized Views
+// ============================================================================
+
+/** View functions wrapped with `memo` */
+const memoizedViews = new WeakMap<Function, IMemoOptions>();
+
+/** Identity keys for object arguments of memoized views */
+const argumentIds = new WeakMap<object, number>();
+let nextArgumentId = 0;
+
+function getArgumentsKey(args: unknown[]): string {
+  return args
+    .map((arg) => {
+      if (
+        (typeof arg === "object" && arg !== null) ||
+        typeof arg === "function"
+      ) {
+        let id = argumentIds.get(arg);
+        if (id === undefined) {
+          id = nextArgumentId++;
+          argumentIds.set(arg, id);
+        }
+        return `#${id}`;
+      }
+      return `${typeof arg}:${String(arg)}`;
+    })
+    .join("|");
+}
+
+/**
+ * Memoize a parameterized view per argument tuple.
+ * Results are cached per instance until an atom read while computing them changes.
+ *
+ * @example
+ * .views((self) => ({
+ *   byStatus: memo((status: string) =>
+ *     self.todos.filter((todo) => todo.status === status),
+ *   ),
+ * }))
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function memo<F extends (...args: any[]) => unknown>(
+  fn: F,
+  options: IMemoOptions = {},
+): F {
+  memoizedViews.set(fn, options);
+  return fn;
+}
+
 // ============================================================================
 // Model Type Factory
 // ============================================================================
 
+/** View initializers registered with options */
+const viewOptions = new WeakMap<Function, IViewsOptions>();
+
 interface LifecycleHooks<Self> {
   afterCreate?: (self: Self) => void;
   afterAttach?: (self: Self) => void;
@@ -111,9 +187,13 @@ interface ModelTypeConfig<
   properties: P;
   views: ModelViews<ModelInstance<P, V, A, Vol> & V & A & Vol, V>[];
   actions: ModelActions<ModelInstance<P, V, A, Vol> & V & A & Vol, A>[];
+  /** Action initializers registered with `{ transaction: true }` */
+  transactionalActions: ReadonlySet<Function>;
   volatiles: ModelVolatile<ModelInstance<P, V, A, Vol> & V & A & Vol, Vol>[];
   preProcessor?: (snapshot: unknown) => ModelCreationType<P>;
   postProcessor?: (snapshot: ModelSnapshotType<P>) => unknown;
+  version?: number;
+  migrations?: ISnapshotMigrations;
   initializers: Array<
     (self: ModelInstance<P, V, A, Vol> & V & A & Vol) => void
   >;
@@ -132,6 +212,10 @@ class ModelType<
   readonly _S!: ModelSnapshotType<P>;
   readonly _T!: ModelInstance<P, V, A, Vol> & V & A & Vol;
 
+  get "~standard"(): StandardSchemaV1Props<this["_C"]> {
+    return getStandardSchema(this);
+  }
+
   readonly name: string;
   readonly properties: P;
   readonly identifierAttribute?: string;
@@ -158,31 +242,33 @@ class ModelType<
   create(
     snapshot?: ModelCreationType<P>,
     env?: unknown,
+    options?: ICreateOptions,
   ): ModelInstance<P, V, A, Vol> & V & A & Vol {
-    // Apply pre-processor if exists
-    let processedSnapshot = snapshot ?? {};
-    if (this.config.preProcessor) {
-      processedSnapshot = this.config.preProcessor(
-        processedSnapshot,
-      ) as ModelCreationType<P>;
+    if (options?.store) {
+      return runWithCreationStore(options.store, () =>
+        this.create(snapshot, env),
+      );
     }
 
+    // Apply migrations and pre-processor if exists
+    const processedSnapshot = this.preProcess(
+      snapshot ?? {},
+    ) as ModelCreationType<P>;
+
     // Create the tree node
     const node = new StateTreeNode(this, processedSnapshot, env);
-    node.preProcessor = this.config.preProcessor as
-      | ((snapshot: unknown) => unknown)
-      | undefined;
-    node.postProcessor = this.config.postProcessor as
-      | ((snapshot: unknown) => unknown)
-      | undefined;
+    if (this.config.preProcessor || this.config.version !== undefined) {
+      node.preProcessor = (snapshot) => this.preProcess(snapshot);
+    }
+    if (this.config.postProcessor || this.config.version !== undefined) {
+      node.postProcessor = (snapshot) => this.postProcess(snapshot);
+    }
 
     // Create property atoms and child nodes
     const propertyAtoms = new Map<
       string,
       WritableAtom<unknown, [unknown], void>
     >();
-    const store = getGlobalStore();
-
     for (const [key, propType] of Object.entries(this.properties)) {
       const type = propType as IAnyType;
       const initialValue = (processedSnapshot as Record<string, unknown>)?.[
@@ -198,14 +284,18 @@ class ModelType<
 
       if (isComplexType) {
         // Complex types create their own nodes
-        const childInstance = type.create(initialValue, env);
+        const childInstance = runAtSnapshotPath(key, () =>
+          type.create(initialValue, env),
+        );
         const childNode = getStateTreeNode(childInstance);
         node.addChild(key, childNode);
         propertyAtoms.set(key, childNode.valueAtom);
       } else {
         // For wrapper types (maybe, late, optional, etc.), create the value first
         // and check if it has a tree node (meaning it wraps a complex type)
-        const value = type.create(initialValue, env);
+        const value = runAtSnapshotPath(key, () =>
+          type.create(initialValue, env),
+        );
 
         // Check if the created value has a tree node (complex type inside wrapper)
         if (value && typeof value === "object" && $treenode in value) {
@@ -230,7 +320,7 @@ class ModelType<
     }
 
     // Build the instance proxy
-    const instance = this.createInstanceProxy(node, propertyAtoms, store);
+    const instance = this.createInstanceProxy(node, propertyAtoms);
 
     // Register identifier if present
     if (this.identifierAttribute) {
@@ -245,15 +335,26 @@ class ModelType<
     // Set instance on node
     node.setInstance(instance);
 
-    // Run initializers (afterCreate hooks)
-    for (const initializer of this.config.initializers) {
-      initializer(instance);
-    }
+    // Attach/detach/destroy hooks are run by the node as the tree changes
+    const { afterAttach, beforeDetach, beforeDestroy } = this.config.hooks;
+    node.hooks = {
+      afterAttach: afterAttach && (() => afterAttach(instance)),
+      beforeDetach: beforeDetach && (() => beforeDetach(instance)),
+      beforeDestroy: beforeDestroy && (() => beforeDestroy(instance)),
+    };
 
-    // Run afterCreate lifecycle hook
-    if (this.config.hooks.afterCreate) {
-      this.config.hooks.afterCreate(instance);
-    }
+    // Hooks behave like actions, so they may modify the protected tree
+    runWithoutProtection(() => {
+      // Run initializers (afterCreate hooks)
+      for (const initializer of this.config.initializers) {
+        initializer(instance);
+      }
+
+      // Run afterCreate lifecycle hook
+      if (this.config.hooks.afterCreate) {
+        this.config.hooks.afterCreate(instance);
+      }
+    });
 
     return instance;
   }
@@ -261,19 +362,79 @@ class ModelType<
   private createInstanceProxy(
     node: StateTreeNode,
     propertyAtoms: Map<string, WritableAtom<unknown, [unknown], void>>,
-    store: ReturnType<typeof getGlobalStore>,
   ): ModelInstance<P, V, A, Vol> & V & A & Vol {
     const self = this;
     // Use bounded LRU caches to prevent unbounded memory growth
     // These caches are instance-scoped and will be GC'd with the instance
-    const viewCache = new LRUCache<string, unknown>(MAX_CACHE_SIZE);
+    const viewCache = new LRUCache<string, Atom<unknown>>(MAX_CACHE_SIZE);
     const actionCache = new LRUCache<string, Function>(MAX_CACHE_SIZE);
 
     // Collect all views
-    const allViews: Record<string, PropertyDescriptor> = {};
+    const allViews: Record<string, PropertyDescriptor> = Object.create(null);
+    const allViewOptions: Record<string, IViewsOptions> = {};
+
+    // Bumped when a property gets a new atom or volatile state changes,
+    // so computed views reading them recompute
+    const versionAtom = atom(0);
+    const bumpVersion = () => node.$store.set(versionAtom, (v) => v + 1);
+
+    // Memoized parameterized views keep one derived atom per argument tuple
+    const memoViews = new Map<string, Function>();
+    const getMemoView = (key: string, fn: Function) => {
+      let view = memoViews.get(key);
+      if (!view) {
+        const { maxSize = MAX_CACHE_SIZE } = memoizedViews.get(fn)!;
+        const cache = new LRUCache<string, Atom<unknown>>(maxSize);
+        view = (...args: unknown[]) => {
+          // Dead nodes no longer change, compute directly
+          if (!node.$isAlive) {
+            return fn.apply(proxy, args);
+          }
+          const argsKey = getArgumentsKey(args);
+          let viewAtom = cache.get(argsKey);
+          if (!viewAtom) {
+            viewAtom = atom((get) =>
+              runTrackingView(get, node.$store, () => fn.apply(proxy, args)),
+            );
+            cache.set(argsKey, viewAtom);
+          }
+          return readNodeAtom(node, viewAtom);
+        };
+        memoViews.set(key, view);
+      }
+      return view;
+    };
+
+    // Computed views are derived atoms caching their value until an atom they read changes
+    const getOrCreateViewAtom = (key: string, getter: () => unknown) => {
+      let viewAtom = viewCache.get(key);
+      if (!viewAtom) {
+        const { keepAlive, equals } = allViewOptions[key];
+        let previous: { value: unknown } | null = null;
+        viewAtom = atom((get) => {
+          const value = runTrackingView(get, node.$store, () =>
+            getter.call(proxy),
+          );
+          if (previous && equals?.(previous.value, value)) {
+            return previous.value;
+          }
+          previous = { value };
+          return value;
+        });
+        viewCache.set(key, viewAtom);
+
+        if (keepAlive) {
+          const unsubscribe = node.$store.sub(viewAtom, () => {});
+          onLifecycleChange(node, (isAlive) => {
+            if (!isAlive) unsubscribe();
+          });
+        }
+      }
+      return viewAtom;
+    };
 
     // Collect all actions
-    const allActions: Record<string, Function> = {};
+    const allActions: Record<string, Function> = Object.create(null);
 
     // Collect volatile state
     const volatileState: Record<string, unknown> = {};
@@ -300,12 +461,14 @@ class ModelType<
 
         // Check properties first
         if (propertyAtoms.has(propStr)) {
+          assertAlive(node, "read", propStr);
           const childNode = node.getChild(propStr);
           if (childNode) {
             // Check if the child node has an instance (complex types like model, array, map)
             // This handles both direct complex types and wrapper types (maybe, late, optional)
             // that contain complex types
             const instance = childNode.getInstance();
+            trackNodeAtom(node, versionAtom);
             if (instance !== undefined) {
               // Check if instance is a state tree node (complex type)
               if (
@@ -313,26 +476,58 @@ class ModelType<
                 typeof instance === "object" &&
                 $treenode in instance
               ) {
+                // Safe references read as undefined while their target
+                // can't be resolved within the tree
+                if (
+                  childNode.$type._kind === "safeReference" &&
+                  !resolveReferenceTarget(
+                    (childNode.$type as ISafeReferenceType<IAnyModelType>)
+                      ._targetType,
+                    childNode.identifierValue!,
+                    childNode,
+                  )
+                ) {
+                  return undefined;
+                }
+                // Views reading a collection depend on its structure
+                trackNodeAtom(childNode, childNode.valueAtom);
                 return instance;
               }
             }
             // For primitive types, get from atom
-            return store.get(propertyAtoms.get(propStr)!);
+            return readNodeAtom(node, propertyAtoms.get(propStr)!);
+          }
+          if (!node.$isAlive) {
+            // Children are released on destroy, fall back to the last known value
+            return node.$store.get(propertyAtoms.get(propStr)!);
           }
         }
 
         // Check volatile state
         if (propStr in node.volatileState) {
+          assertAlive(node, "read", propStr);
+          trackNodeAtom(node, versionAtom);
           return node.volatileState[propStr];
         }
 
         // Check views
         if (propStr in allViews) {
+          assertAlive(node, "view", propStr);
           const descriptor = allViews[propStr];
           if (descriptor.get) {
-            return descriptor.get.call(proxy);
+            // Dead nodes no longer change, compute directly
+            if (!node.$isAlive) {
+              return descriptor.get.call(proxy);
+            }
+            return readNodeAtom(
+              node,
+              getOrCreateViewAtom(propStr, descriptor.get),
+            );
           }
           if (typeof descriptor.value === "function") {
+            if (memoizedViews.has(descriptor.value)) {
+              return getMemoView(propStr, descriptor.value);
+            }
             return descriptor.value.bind(proxy);
           }
           return descriptor.value;
@@ -351,34 +546,40 @@ class ModelType<
 
         // Check if it's a property
         if (propertyAtoms.has(propStr)) {
+          if (!assertAlive(node, "write", propStr)) return true;
+          assertWritable(node, propStr);
           const propType = (self.properties as Record<string, IAnyType>)[
             propStr
           ];
           const existingChildNode = node.getChild(propStr);
 
           // Handle direct complex types
-          if (propType._kind === "model") {
+          if (
+            propType._kind === "model" ||
+            propType._kind === "array" ||
+            propType._kind === "map"
+          ) {
             if (existingChildNode) {
-              // For models, apply snapshot
-              const { applySnapshotToNode } = require("./tree");
+              // Apply as snapshot - arrays and maps reconcile their items
               applySnapshotToNode(existingChildNode, value);
             }
             return true;
           }
 
-          if (propType._kind === "array" || propType._kind === "map") {
-            if (existingChildNode) {
-              // For arrays/maps, replace content
-              existingChildNode.setValue(value);
-            }
-            return true;
-          }
-
           // Handle wrapper types (maybe, late, optional, etc.) and primitives
           // These may contain complex types that need proper lifecycle management
 
           // Get old value for patch
           const oldValue = existingChildNode?.getValue();
+          // Primitive properties keep their atom, so views stay subscribed to it
+          const previousAtom =
+            existingChildNode && !existingChildNode.getInstance()
+              ? propertyAtoms.get(propStr)
+              : undefined;
+
+          // Create new value through the type - before the old child is
+          // destroyed, so an invalid value leaves the property as it was
+          const newValue = propType.create(value, node.$env);
 
           // Destroy the old child node if it exists
           if (existingChildNode) {
@@ -386,9 +587,6 @@ class ModelType<
             node.getChildren().delete(propStr);
           }
 
-          // Create new value through the type
-          const newValue = propType.create(value, node.$env);
-
           // Check if the new value is a complex type (has tree node)
           if (
             newValue &&
@@ -398,6 +596,7 @@ class ModelType<
             const newChildNode = getStateTreeNode(newValue);
             node.addChild(propStr, newChildNode);
             propertyAtoms.set(propStr, newChildNode.valueAtom);
+            bumpVersion();
           } else {
             // Primitive value - create a new child node for it
             const newChildNode = new StateTreeNode(
@@ -407,7 +606,7 @@ class ModelType<
               node,
               propStr,
             );
-            const propAtom = atom(newValue);
+            const propAtom = previousAtom ?? atom(newValue);
             newChildNode.valueAtom = propAtom as unknown as WritableAtom<
               unknown,
               [unknown],
@@ -415,7 +614,10 @@ class ModelType<
             >;
             node.addChild(propStr, newChildNode);
             propertyAtoms.set(propStr, propAtom);
-            store.set(propAtom, newValue);
+            node.$store.set(propAtom, newValue);
+            if (!previousAtom) {
+              bumpVersion();
+            }
           }
 
           // Notify about the change - use node's notification methods
@@ -426,9 +628,12 @@ class ModelType<
 
         // Check if it's volatile state
         if (propStr in node.volatileState) {
+          if (!assertAlive(node, "write", propStr)) return true;
+          assertWritable(node, propStr);
           const oldValue = node.volatileState[propStr];
           if (oldValue !== value) {
             node.volatileState[propStr] = value;
+            bumpVersion();
             node.notifyVolatileChange();
           }
           return true;
@@ -482,18 +687,22 @@ class ModelType<
         Object.getOwnPropertyDescriptors(views),
       )) {
         allViews[key] = value;
+        allViewOptions[key] = viewOptions.get(viewFn) ?? {};
       }
     }
 
     // Initialize actions
     for (const actionFn of this.config.actions) {
       const actions = actionFn(proxy);
+      const isTransaction = this.config.transactionalActions.has(actionFn);
       for (const [key, value] of Object.entries(actions)) {
         if (typeof value === "function") {
           // Wrap action with tracking
           allActions[key] = (...args: unknown[]) => {
-            return trackAction(node, key, args, () => {
-              return (value as Function).apply(proxy, args);
+            assertAlive(node, "action", key);
+            return trackAction(node, key, args, (callArgs) => {
+              const run = () => (value as Function).apply(proxy, callArgs);
+              return isTransaction ? transaction(proxy, run) : run();
             });
           };
         }
@@ -506,6 +715,40 @@ class ModelType<
       Object.assign(node.volatileState, volatile);
     }
 
+    // Public atoms (getPropertyAtom/getViewAtom) go through the proxy, so reads
+    // are tracked like views and writes run through the set trap
+    const publicPropertyAtoms = new Map<
+      string,
+      WritableAtom<unknown, [unknown], void>
+    >();
+    node.propertyAtom = (key) => {
+      if (!propertyAtoms.has(key)) return undefined;
+      let propertyAtom = publicPropertyAtoms.get(key);
+      if (!propertyAtom) {
+        propertyAtom = atom(
+          (get) =>
+            runTrackingView(
+              get,
+              node.$store,
+              () => (proxy as Record<string, unknown>)[key],
+            ),
+          (_get, _set, value: unknown) => {
+            (proxy as Record<string, unknown>)[key] = value;
+          },
+        );
+        propertyAtom.debugLabel = `${this.name}.${key}`;
+        publicPropertyAtoms.set(key, propertyAtom);
+      }
+      return propertyAtom;
+    };
+    node.viewAtom = (key) => {
+      const getter = allViews[key]?.get;
+      if (!getter) return undefined;
+      const viewAtom = getOrCreateViewAtom(key, getter);
+      viewAtom.debugLabel ??= `${this.name}.${key}`;
+      return viewAtom;
+    };
+
     return proxy;
   }
 
@@ -519,6 +762,32 @@ class ModelType<
   validate(value: unknown, context: IValidationContext[]): IValidationResult {
     const errors: IValidationResult["errors"] = [];
 
+    // Older snapshots are valid if they migrate to a valid snapshot
+    if (
+      this.config.version !== undefined &&
+      value &&
+      typeof value === "object" &&
+      !($treenode in value)
+    ) {
+      try {
+        value = this.migrate(
+          value,
+          context.length > 0 ? context[context.length - 1].path : "/",
+        );
+      } catch (error) {
+        return {
+          valid: false,
+          errors: [
+            {
+              context,
+              value,
+              message: error instanceof Error ? error.message : String(error),
+            },
+          ],
+        };
+      }
+    }
+
     if (!value || typeof value !== "object") {
       return {
         valid: false,
@@ -536,7 +805,10 @@ class ModelType<
     for (const [key, propType] of Object.entries(this.properties)) {
       const propValue = (value as Record<string, unknown>)[key];
       const propContext: IValidationContext = {
-        path: context.length > 0 ? `${context[0].path}/${key}` : `/${key}`,
+        path:
+          context.length > 0
+            ? `${context[context.length - 1].path}/${escapeJsonPath(key)}`
+            : `/${escapeJsonPath(key)}`,
         type: propType as IAnyType,
         parent: value,
       };
@@ -556,6 +828,80 @@ class ModelType<
     };
   }
 
+  // ============================================================================
+  // Snapshot Processing
+  // ============================================================================
+
+  /** Migrate a snapshot, then apply the pre-processor if exists */
+  private preProcess(snapshot: unknown): unknown {
+    const migrated = this.migrate(snapshot);
+    return this.config.preProcessor
+      ? this.config.preProcessor(migrated)
+      : migrated;
+  }
+
+  /** Apply the post-processor if exists, then stamp the version if any */
+  private postProcess(snapshot: unknown): unknown {
+    const processed = this.config.postProcessor
+      ? this.config.postProcessor(snapshot as ModelSnapshotType<P>)
+      : snapshot;
+    if (
+      this.config.version === undefined ||
+      !processed ||
+      typeof processed !== "object"
+    ) {
+      return processed;
+    }
+    return Object.freeze({
+      [SNAPSHOT_VERSION_KEY]: this.config.version,
+      ...processed,
+    });
+  }
+
+  /**
+   * Run the migrations from the version stamped in a snapshot to the current one.
+   * Snapshots without a version are taken to be current.
+   */
+  private migrate(snapshot: unknown, path = getSnapshotPath()): unknown {
+    const { version, migrations = {} } = this.config;
+    if (
+      version === undefined ||
+      !snapshot ||
+      typeof snapshot !== "object" ||
+      !(SNAPSHOT_VERSION_KEY in snapshot)
+    ) {
+      return snapshot;
+    }
+
+    const { [SNAPSHOT_VERSION_KEY]: from, ...rest } = snapshot as Record<
+      string,
+      unknown
+    >;
+    if (typeof from !== "number" || !Number.isInteger(from) || from > version) {
+      throw new Error(
+        `[jotai-state-tree] Unsupported snapshot version ${String(from)} of '${this.name}' at '${path}', expected ${version} or older`,
+      );
+    }
+
+    let migrated: unknown = rest;
+    for (let current = from; current < version; current++) {
+      const migration = migrations[current];
+      if (!migration) {
+        throw new Error(
+          `[jotai-state-tree] Missing migration from version ${current} to ${current + 1} of '${this.name}' at '${path}'`,
+        );
+      }
+      try {
+        migrated = migration(migrated);
+      } catch (error) {
+        throw new Error(
+          `[jotai-state-tree] Migration from version ${current} to ${current + 1} of '${this.name}' failed at '${path}': ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+    return migrated;
+  }
+
   // ============================================================================
   // Model Modifiers
   // ============================================================================
@@ -578,7 +924,11 @@ class ModelType<
 
   views<V2 extends object>(
     fn: ModelViews<ModelInstance<P, V, A, Vol> & V & A & Vol, V2>,
+    options?: IViewsOptions,
   ): IModelType<P, V & V2, A, Vol> {
+    if (options) {
+      viewOptions.set(fn, options);
+    }
     return new ModelType({
       ...this.config,
       views: [
@@ -593,9 +943,13 @@ class ModelType<
 
   actions<A2 extends object>(
     fn: ModelActions<ModelInstance<P, V, A, Vol> & V & A & Vol, A2>,
+    options: IActionsOptions = {},
   ): IModelType<P, V, A & A2, Vol> {
     return new ModelType({
       ...this.config,
+      transactionalActions: options.transaction
+        ? new Set([...this.config.transactionalActions, fn])
+        : this.config.transactionalActions,
       actions: [
         ...this.config.actions,
         fn as unknown as ModelActions<
@@ -643,6 +997,25 @@ class ModelType<
     });
   }
 
+  version(version: number): IModelType<P, V, A, Vol> {
+    if (!Number.isInteger(version) || version < 0) {
+      throw new Error(
+        `[jotai-state-tree] Version of '${this.name}' must be a non-negative integer, got ${version}`,
+      );
+    }
+    return new ModelType({
+      ...this.config,
+      version,
+    });
+  }
+
+  migrations(migrations: ISnapshotMigrations): IModelType<P, V, A, Vol> {
+    return new ModelType({
+      ...this.config,
+      migrations: { ...this.config.migrations, ...migrations },
+    });
+  }
+
   extend<
     V2 extends object = object,
     A2 extends object = object,
@@ -871,6 +1244,7 @@ export function model<P extends ModelProperties>(
     properties,
     views: [],
     actions: [],
+    transactionalActions: new Set(),
     volatiles: [],
     initializers: [],
     hooks: {},
@@ -924,6 +1298,7 @@ export function compose(...args: unknown[]): unknown {
   const mergedViews: ModelViews<any, object>[] = [];
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const mergedActions: ModelActions<any, object>[] = [];
+  const mergedTransactionalActions = new Set<Function>();
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const mergedVolatiles: ModelVolatile<any, object>[] = [];
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -939,6 +1314,9 @@ export function compose(...args: unknown[]): unknown {
       const config = type.getConfig();
       mergedViews.push(...config.views);
       mergedActions.push(...config.actions);
+      for (const fn of config.transactionalActions) {
+        mergedTransactionalActions.add(fn);
+      }
       mergedVolatiles.push(...config.volatiles);
       mergedInitializers.push(...config.initializers);
       // Merge hooks (later models override earlier ones)
@@ -951,6 +1329,7 @@ export function compose(...args: unknown[]): unknown {
     properties: mergedProperties,
     views: mergedViews,
     actions: mergedActions,
+    transactionalActions: mergedTransactionalActions,
     volatiles: mergedVolatiles,
     initializers: mergedInitializers,
     hooks: mergedHooks,
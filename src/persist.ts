@@ -0,0 +1,358 @@
+/**
+ * Persistence for jotai-state-tree
+ * Hydrates a tree from storage and writes its snapshots back, through pluggable adapters
+ */
+
+import type { IDisposer } from "./types";
+import {
+  getSnapshot,
+  applySnapshot,
+  onSnapshot,
+  SNAPSHOT_VERSION_KEY,
+} from "./tree";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Storage adapter - synchronous (Web Storage) or asynchronous (files, IndexedDB).
+ * Methods may return promises; values are serialized snapshots.
+ */
+export interface IPersistStorage {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+export interface IPersistOptions {
+  /** Storage key of the snapshot */
+  key: string;
+  /** Storage adapter, defaults to `localStorage` */
+  storage?: IPersistStorage;
+  /** Write at most once per window (ms), defaults to 0 - write on every change */
+  throttleMs?: number;
+  /** Top-level snapshot properties to persist (all by default) */
+  include?: string[];
+  /** Top-level snapshot properties not to persist */
+  exclude?: string[];
+}
+
+/** Hydration status of a persisted tree */
+export type PersistStatus = "hydrating" | "hydrated" | "error";
+
+export interface IPersistController {
+  /** Hydration status - "error" if reading or writing storage failed */
+  readonly status: PersistStatus;
+  /** The last storage error, if any */
+  readonly error: unknown;
+  /** Whether writes are paused */
+  readonly isPaused: boolean;
+  /** Resolves once the stored snapshot was applied (rejects if it could not be read) */
+  readonly hydrated: Promise<void>;
+  /** Stop writing changes (they are still collected) */
+  pause(): void;
+  /** Resume writing, persisting changes made while paused */
+  resume(): void;
+  /** Write pending changes now - also the only way to write after a failed hydration */
+  flush(): Promise<void>;
+  /** Remove the persisted snapshot from storage */
+  clear(): Promise<void>;
+  /** Stop persisting */
+  dispose(): void;
+}
+
+// ============================================================================
+// Storage Adapters
+// ============================================================================
+
+/** Storage kept in memory, e.g. for tests and SSR */
+export function createMemoryStorage(): IPersistStorage {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+}
+
+/** Storage backed by Web Storage (`localStorage` by default) */
+export function createWebStorage(storage?: Storage): IPersistStorage {
+  const webStorage = storage ?? globalThis.localStorage;
+  if (!webStorage) {
+    throw new Error(
+      "[jotai-state-tree] Web Storage is not available, pass a storage adapter to persist()",
+    );
+  }
+  return {
+    getItem: (key) => webStorage.getItem(key),
+    setItem: (key, value) => webStorage.setItem(key, value),
+    removeItem: (key) => webStorage.removeItem(key),
+  };
+}
+
+/** The part of `node:fs/promises` file storage uses */
+export interface IFileSystem {
+  readFile(path: string, encoding: "utf8"): Promise<string>;
+  writeFile(path: string, data: string, encoding: "utf8"): Promise<void>;
+  mkdir(path: string, options: { recursive: true }): Promise<unknown>;
+  rm(path: string, options: { force: true }): Promise<void>;
+}
+
+/**
+ * Storage writing one JSON file per key into `directory`.
+ * The file system is passed in so the library does not depend on Node.js.
+ *
+ * @example
+ * import fs from "node:fs/promises";
+ * const storage = createFileStorage("./data", fs);
+ */
+export function createFileStorage(
+  directory: string,
+  fs: IFileSystem,
+): IPersistStorage {
+  const fileOf = (key: string) =>
+    `${directory.replace(/[\\/]+$/, "")}/${encodeURIComponent(key)}.json`;
+  return {
+    async getItem(key) {
+      try {
+        return await fs.readFile(fileOf(key), "utf8");
+      } catch (error) {
+        if ((error as { code?: string }).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+    async setItem(key, value) {
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(fileOf(key), value, "utf8");
+    },
+    async removeItem(key) {
+      await fs.rm(fileOf(key), { force: true });
+    },
+  };
+}
+
+// ============================================================================
+// Persist Implementation
+// ============================================================================
+
+class PersistController implements IPersistController {
+  private target: unknown;
+  private key: string;
+  private storage: IPersistStorage;
+  private throttleMs: number;
+  private include?: string[];
+  private exclude?: string[];
+  private statusValue: PersistStatus = "hydrating";
+  private isHydrated = false;
+  private errorValue: unknown = undefined;
+  private writeFailed = false;
+  private paused = false;
+  private disposed = false;
+  private pendingSnapshot: unknown = undefined;
+  private hasPending = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private writing: Promise<void> | null = null;
+  private disposer: IDisposer | null = null;
+
+  readonly hydrated: Promise<void>;
+
+  constructor(target: unknown, options: IPersistOptions) {
+    this.target = target;
+    this.key = options.key;
+    this.storage = options.storage ?? createWebStorage();
+    this.throttleMs = options.throttleMs ?? 0;
+    this.include = options.include;
+    this.exclude = options.exclude;
+
+    // Changes are collected right away but only written once hydrated
+    this.disposer = onSnapshot(target, (snapshot) => {
+      this.pendingSnapshot = snapshot;
+      this.hasPending = true;
+      this.schedule();
+    });
+
+    this.hydrated = this.hydrate();
+    // Failures are reported through `status`, awaiting `hydrated` is optional
+    this.hydrated.catch(() => {});
+  }
+
+  get status(): PersistStatus {
+    return this.statusValue;
+  }
+
+  get error(): unknown {
+    return this.errorValue;
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  private hydrate(): Promise<void> {
+    const apply = (stored: string | null) => {
+      if (this.disposed) return;
+      if (stored !== null) {
+        const current = getSnapshot(this.target) as Record<string, unknown>;
+        const persisted = this.filter(JSON.parse(stored));
+        applySnapshot(this.target, { ...current, ...persisted });
+        // Hydrating is not a change to persist
+        this.hasPending = false;
+        this.pendingSnapshot = undefined;
+      }
+      this.statusValue = "hydrated";
+      this.isHydrated = true;
+      this.schedule();
+    };
+    const fail = (error: unknown) => {
+      this.statusValue = "error";
+      this.errorValue = error;
+      return Promise.reject(error);
+    };
+
+    try {
+      const stored = this.storage.getItem(this.key);
+      if (stored instanceof Promise) {
+        return stored.then(apply).catch(fail);
+      }
+      apply(stored);
+      return Promise.resolve();
+    } catch (error) {
+      return fail(error);
+    }
+  }
+
+  /** Keep only the persisted top-level properties */
+  private filter(snapshot: unknown): Record<string, unknown> {
+    if (!snapshot || typeof snapshot !== "object") return {};
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(snapshot)) {
+      // The version is kept so stored snapshots of versioned models migrate
+      const filtered = key !== SNAPSHOT_VERSION_KEY;
+      if (filtered && this.include && !this.include.includes(key)) continue;
+      if (filtered && this.exclude?.includes(key)) continue;
+      result[key] = value;
+    }
+    return result;
+  }
+
+  private schedule(): void {
+    if (!this.hasPending || this.paused || this.disposed) return;
+    // Never overwrite a stored snapshot that was not read - after a failed
+    // hydration only `flush()` writes
+    if (!this.isHydrated) return;
+    if (this.throttleMs <= 0) {
+      void this.write();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        if (!this.paused && !this.disposed) {
+          void this.write();
+        }
+      }, this.throttleMs);
+    }
+  }
+
+  /** Write the pending snapshot - async writes are chained so they land in order */
+  private write(): Promise<void> {
+    if (this.hasPending) {
+      const value = JSON.stringify(this.filter(this.pendingSnapshot));
+      this.hasPending = false;
+      this.pendingSnapshot = undefined;
+
+      const setItem = () => this.storage.setItem(this.key, value);
+      const succeed = () => {
+        // A write failure is over once a later write lands
+        if (!this.writeFailed) return;
+        this.writeFailed = false;
+        this.statusValue = "hydrated";
+        this.errorValue = undefined;
+      };
+      const fail = (error: unknown) => {
+        this.statusValue = "error";
+        this.errorValue = error;
+        this.writeFailed = true;
+      };
+      if (this.writing) {
+        this.writing = this.writing.then(setItem).then(succeed, fail);
+      } else {
+        try {
+          const result = setItem();
+          if (result instanceof Promise) {
+            this.writing = result.then(succeed, fail);
+          } else {
+            succeed();
+          }
+        } catch (error) {
+          fail(error);
+        }
+      }
+
+      const writing = this.writing;
+      writing?.then(() => {
+        if (this.writing === writing) this.writing = null;
+      });
+    }
+    return this.writing ?? Promise.resolve();
+  }
+
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+    this.schedule();
+  }
+
+  async flush(): Promise<void> {
+    // Never overwrite the stored snapshot before it was read
+    if (this.statusValue === "hydrating") {
+      await this.hydrated.catch(() => {});
+    }
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.write();
+  }
+
+  async clear(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.hasPending = false;
+    this.pendingSnapshot = undefined;
+    await this.writing;
+    await this.storage.removeItem(this.key);
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.disposer?.();
+    this.disposer = null;
+  }
+}
+
+/**
+ * Persist a tree: hydrate it from storage, then write its snapshots back as it changes.
+ *
+ * @example
+ * const persisted = persist(store, { key: "todos", throttleMs: 500 });
+ * await persisted.hydrated;
+ */
+export function persist(
+  target: unknown,
+  options: IPersistOptions,
+): IPersistController {
+  return new PersistController(target, options);
+}
@@ -13,7 +13,11 @@ import type {
   ILiteralType,
   IEnumerationType,
   IFrozenType,
+  StandardSchemaV1,
+  StandardSchemaV1Input,
+  StandardSchemaV1Result,
 } from './types';
+import { getStandardSchema, escapeJsonPath } from './tree';
 
 // ============================================================================
 // Base Simple Type
@@ -31,6 +35,10 @@ function createSimpleType<T>(
     _S: undefined as unknown as T,
     _T: undefined as unknown as T,
 
+    get '~standard'() {
+      return getStandardSchema(this);
+    },
+
     create(snapshot?: T): T {
       if (snapshot === undefined) {
         if (defaultValue !== undefined) {
@@ -105,6 +113,10 @@ export const DatePrimitive: IType<number | Date, number, Date> = {
   _S: undefined as unknown as number,
   _T: undefined as unknown as Date,
 
+  get '~standard'() {
+    return getStandardSchema(this);
+  },
+
   create(snapshot?: number | Date): Date {
     if (snapshot === undefined) {
       return new Date();
@@ -163,6 +175,10 @@ export const identifier: IIdentifierType = {
   ),
   _kind: 'identifier' as const,
   identifierAttribute: 'id',
+
+  get '~standard'() {
+    return getStandardSchema(this);
+  },
 };
 
 /** Number identifier type */
@@ -173,6 +189,10 @@ export const identifierNumber: IIdentifierNumberType = {
   ),
   _kind: 'identifierNumber' as const,
   identifierAttribute: 'id',
+
+  get '~standard'() {
+    return getStandardSchema(this);
+  },
 };
 
 // ============================================================================
@@ -188,6 +208,10 @@ export function literal<T extends string | number | boolean>(value: T): ILiteral
     _S: undefined as unknown as T,
     _T: undefined as unknown as T,
 
+    get '~standard'() {
+      return getStandardSchema(this);
+    },
+
     create(snapshot?: T): T {
       if (snapshot === undefined) {
         return value;
@@ -248,6 +272,10 @@ export function enumeration<E extends string>(
     _S: undefined as unknown as E,
     _T: undefined as unknown as E,
 
+    get '~standard'() {
+      return getStandardSchema(this);
+    },
+
     create(snapshot?: E): E {
       if (snapshot === undefined) {
         throw new Error(`[jotai-state-tree] A value for enumeration '${name}' is required`);
@@ -297,6 +325,10 @@ export function frozen<T>(defaultValue?: T): IFrozenType<T> {
     _S: undefined as unknown as T,
     _T: undefined as unknown as T,
 
+    get '~standard'() {
+      return getStandardSchema(this);
+    },
+
     create(snapshot?: T): T {
       if (snapshot === undefined) {
         if (defaultValue !== undefined) {
@@ -357,6 +389,10 @@ export function custom<C, S, T>(options: CustomTypeOptions<C, S, T>): IType<C, S
     _S: undefined as unknown as S,
     _T: undefined as unknown as T,
 
+    get '~standard'() {
+      return getStandardSchema(this);
+    },
+
     create(snapshot?: C): T {
       if (snapshot === undefined) {
         throw new Error(`[jotai-state-tree] A value for custom type '${options.name}' is required`);
@@ -386,6 +422,94 @@ export function custom<C, S, T>(options: CustomTypeOptions<C, S, T>): IType<C, S
   };
 }
 
+// ============================================================================
+// Standard Schema Type
+// ============================================================================
+
+/**
+ * Leaf type validated by an external Standard Schema, such as Zod or Valibot.
+ * Values are the validated input rather than the schema's output, so snapshots
+ * round-trip through schemas that trim or parse. The schema must validate synchronously.
+ */
+export function fromStandardSchema<Schema extends StandardSchemaV1>(
+  schema: Schema,
+  name = `standardSchema(${schema['~standard'].vendor})`
+): IType<
+  StandardSchemaV1Input<Schema>,
+  StandardSchemaV1Input<Schema>,
+  StandardSchemaV1Input<Schema>
+> {
+  type Input = StandardSchemaV1Input<Schema>;
+
+  const run = (value: unknown): StandardSchemaV1Result<unknown> => {
+    const result = schema['~standard'].validate(value);
+    if (result instanceof Promise) {
+      throw new Error(
+        `[jotai-state-tree] '${name}' validates asynchronously, only synchronous Standard Schemas can be used as types`
+      );
+    }
+    return result;
+  };
+
+  const type: IType<Input, Input, Input> = {
+    name,
+    _kind: 'simple' as const,
+    _C: undefined as unknown as Input,
+    _S: undefined as unknown as Input,
+    _T: undefined as unknown as Input,
+
+    get '~standard'() {
+      return getStandardSchema(this);
+    },
+
+    create(snapshot?: Input): Input {
+      const result = run(snapshot);
+      if (result.issues) {
+        throw new Error(
+          `[jotai-state-tree] Value ${JSON.stringify(snapshot)} is not a valid '${name}': ` +
+          result.issues.map((issue) => issue.message).join(', ')
+        );
+      }
+      return snapshot as Input;
+    },
+
+    is(value: unknown): value is Input {
+      return !run(value).issues;
+    },
+
+    validate(value: unknown, context: IValidationContext[]): IValidationResult {
+      const result = run(value);
+      if (!result.issues) {
+        return { valid: true, errors: [] };
+      }
+      const basePath = context.length > 0 ? context[context.length - 1].path : '';
+      return {
+        valid: false,
+        errors: result.issues.map((issue) => ({
+          // Issues inside the value extend the context with their path
+          context: issue.path?.length
+            ? [
+                ...context,
+                {
+                  path: `${basePath}/${issue.path
+                    .map((segment) =>
+                      escapeJsonPath(String(typeof segment === 'object' ? segment.key : segment))
+                    )
+                    .join('/')}`,
+                  type,
+                  parent: value,
+                },
+              ]
+            : context,
+          value,
+          message: issue.message,
+        })),
+      };
+    },
+  };
+  return type;
+}
+
 // ============================================================================
 // Finite Number Type
 // ============================================================================
@@ -12,6 +12,7 @@ import React, {
   memo,
   useCallback,
   useSyncExternalStore,
+  type ComponentClass,
   type ComponentType,
   type ForwardedRef,
   type ReactNode,
@@ -30,8 +31,15 @@ import {
   onSnapshot,
   getSnapshot,
   onLifecycleChange,
+  deferNotifications,
   type IDisposer,
 } from "./tree";
+import {
+  createDependencyTracker,
+  withDependencyTracking,
+  trackDependency,
+  type DependencyTracker,
+} from "./lifecycle";
 
 // ============================================================================
 // Observer Tracking Context
@@ -52,85 +60,201 @@ export function useObserverTracking(): TrackNodeFn | null {
 // Observer HOC
 // ============================================================================
 
+/**
+ * Track a node handed to an observer (props, useStore) by its change atom, so
+ * collections re-render the observer when their items change. Model properties
+ * read while rendering are tracked one by one, so models are only followed as a
+ * whole (`wholeNode`) by renders that can't be tracked.
+ */
+function trackNode(node: unknown, wholeNode = false): void {
+  if (hasStateTreeNode(node)) {
+    const treeNode = getStateTreeNode(node);
+    if (wholeNode || treeNode.$type._kind !== "model") {
+      trackDependency(treeNode.getChangeAtom(), treeNode.$store);
+    }
+  }
+}
+
 interface ObserverOptions {
   forwardRef?: boolean;
 }
 
 /**
- * Higher-order component that makes a component reactive to state tree changes.
- * Similar to mobx-react-lite's observer.
+ * Subscription state of one mounted observer, read through useSyncExternalStore.
+ * Renders only record their dependencies - subscribing happens once React commits,
+ * so discarded concurrent renders and StrictMode double effects leave nothing behind.
  */
-export function observer<P extends object>(
-  Component: ComponentType<P>,
-  options?: ObserverOptions,
-): ComponentType<P> {
-  const displayName = Component.displayName || Component.name || "Component";
+interface ObserverAdministration {
+  subscribe(onStoreChange: () => void): IDisposer;
+  getSnapshot(): number;
+  /** Follow the dependencies of the last committed render */
+  setTracker(tracker: DependencyTracker): void;
+}
 
-  const ObserverComponent = memo((props: P) => {
-    const [, forceUpdate] = useState({});
-    const disposersRef = useRef<Set<IDisposer>>(new Set());
-    const trackedNodesRef = useRef<Set<unknown>>(new Set());
-
-    // Track which state tree nodes are accessed during render
-    const trackNode = (node: unknown) => {
-      if (hasStateTreeNode(node) && !trackedNodesRef.current.has(node)) {
-        trackedNodesRef.current.add(node);
-        const disposer = onSnapshot(node, () => {
-          forceUpdate({});
-        });
-        disposersRef.current.add(disposer);
-      }
-    };
+function createObserverAdministration(): ObserverAdministration {
+  let version = 0;
+  let tracker: DependencyTracker | null = null;
+  let onStoreChange: (() => void) | null = null;
+  let disposeDependencies: IDisposer | null = null;
 
-    // Create a proxy for tracking property access
-    const createTrackingProxy = <T extends object>(target: T): T => {
-      if (!target || typeof target !== "object") return target;
-      if (hasStateTreeNode(target)) {
-        trackNode(target);
-      }
+  const changed = () => {
+    version++;
+    onStoreChange?.();
+  };
 
-      return new Proxy(target, {
-        get(obj, prop) {
-          const value = (obj as Record<string | symbol, unknown>)[prop];
-          if (value && typeof value === "object" && hasStateTreeNode(value)) {
-            trackNode(value);
-            return createTrackingProxy(value as object);
-          }
-          return value;
-        },
-      }) as T;
-    };
+  const resubscribe = () => {
+    disposeDependencies?.();
+    disposeDependencies = null;
+    if (onStoreChange && tracker) {
+      disposeDependencies = tracker.subscribe(changed);
+      // A dependency changed between rendering and subscribing
+      if (tracker.isStale()) {
+        changed();
+      }
+    }
+  };
 
-    // Clear old subscriptions on re-render
-    useEffect(() => {
+  return {
+    subscribe(listener) {
+      onStoreChange = listener;
+      resubscribe();
       return () => {
-        disposersRef.current.forEach((d) => d());
-        disposersRef.current.clear();
-        trackedNodesRef.current.clear();
+        onStoreChange = null;
+        resubscribe();
       };
-    }, []);
-
-    // Wrap props that might be state tree nodes
-    const trackedProps = useMemo(() => {
-      const tracked: Record<string, unknown> = {};
-      for (const [key, value] of Object.entries(props)) {
-        if (value && typeof value === "object") {
-          tracked[key] = createTrackingProxy(value as object);
-        } else {
-          tracked[key] = value;
-        }
+    },
+    getSnapshot: () => version,
+    setTracker(nextTracker) {
+      if (tracker !== nextTracker) {
+        tracker = nextTracker;
+        resubscribe();
       }
-      return tracked as P;
-    }, [props]);
-
-    // Provide tracking context so hooks can register their accessed nodes
-    return React.createElement(
-      ObserverTrackingContext.Provider,
-      { value: trackNode },
-      React.createElement(Component, trackedProps)
-    );
+    },
+  };
+}
+
+/**
+ * Render `render` recording the atoms it reads, and re-render once one of them
+ * changes. Nodes passed as props are tracked as well.
+ */
+function useTrackedRender(
+  props: object,
+  render: () => ReactNode,
+  tracked = true,
+): ReactNode {
+  const [administration] = useState(createObserverAdministration);
+  // Version stamp of the state this render was computed from
+  useSyncExternalStore(
+    administration.subscribe,
+    administration.getSnapshot,
+    administration.getSnapshot,
+  );
+
+  // Record the atoms read while rendering
+  const tracker = createDependencyTracker();
+  const rendered = withDependencyTracking(tracker, () => {
+    for (const value of Object.values(props)) {
+      trackNode(value, !tracked);
+    }
+    return render();
   });
 
+  // Only committed renders change what we are subscribed to
+  useEffect(() => {
+    administration.setTracker(tracker);
+  });
+
+  // Provide tracking context so hooks can register their accessed nodes
+  return React.createElement(
+    ObserverTrackingContext.Provider,
+    { value: trackNode },
+    rendered,
+  );
+}
+
+/** Child rendering the output of an observed class component */
+function TrackedRender({
+  props,
+  render,
+}: {
+  props: object;
+  render: () => ReactNode;
+}): ReactNode {
+  return useTrackedRender(props, render);
+}
+
+/** Subclass a class component so its render output is tracked */
+function observeClassComponent<P extends object>(
+  Component: ComponentClass<P>,
+): ComponentClass<P> {
+  return class ObserverClassComponent extends Component {
+    render(): ReactNode {
+      return React.createElement(TrackedRender, {
+        props: this.props,
+        render: () => super.render(),
+      });
+    }
+  };
+}
+
+const REACT_MEMO_TYPE = Symbol.for("react.memo");
+const REACT_FORWARD_REF_TYPE = Symbol.for("react.forward_ref");
+
+/** Fields of the objects returned by `memo` and `forwardRef` */
+interface ExoticComponentFields<P> {
+  $$typeof?: symbol;
+  type?: ComponentType<P>;
+  compare?: (previous: Readonly<P>, next: Readonly<P>) => boolean;
+  render?: (props: P, ref: ForwardedRef<unknown>) => ReactNode;
+}
+
+function isClassComponent<P>(
+  Component: ComponentType<P>,
+): Component is ComponentClass<P> {
+  return !!(Component.prototype as { isReactComponent?: unknown } | undefined)
+    ?.isReactComponent;
+}
+
+/**
+ * Higher-order component that makes a component reactive to state tree changes.
+ * Similar to mobx-react-lite's observer: the component re-renders only when a
+ * property, collection or view it read during its last render changes.
+ * Function, class, `memo` and `forwardRef` components are all tracked.
+ */
+export function observer<P extends object>(
+  Component: ComponentType<P>,
+  options?: ObserverOptions,
+): ComponentType<P> {
+  // Observe the component wrapped by memo, keeping its comparison
+  const memoFields = Component as unknown as ExoticComponentFields<P>;
+  const isMemo = memoFields.$$typeof === REACT_MEMO_TYPE;
+  const Inner = isMemo ? memoFields.type! : Component;
+  const innerFields = Inner as unknown as ExoticComponentFields<P>;
+  const displayName =
+    Component.displayName || Inner.displayName || Inner.name || "Component";
+
+  let TrackedComponent: ComponentType<P>;
+  if (innerFields.$$typeof === REACT_FORWARD_REF_TYPE) {
+    const render = innerFields.render!;
+    TrackedComponent = forwardRef<unknown, P>((props, ref) =>
+      useTrackedRender(props, () => render(props as P, ref)),
+    ) as unknown as ComponentType<P>;
+  } else if (isClassComponent(Inner)) {
+    TrackedComponent = observeClassComponent(Inner);
+  } else if (typeof Inner === "function") {
+    TrackedComponent = (props: P) =>
+      useTrackedRender(props, () => (Inner as (props: P) => ReactNode)(props));
+  } else {
+    // Other exotic components (lazy, ...) render as a child we can't track, so
+    // follow the nodes they are given as a whole
+    TrackedComponent = (props: P) =>
+      useTrackedRender(props, () => React.createElement(Inner, props), false);
+  }
+
+  const ObserverComponent = memo(
+    TrackedComponent,
+    isMemo ? memoFields.compare : undefined,
+  );
   ObserverComponent.displayName = `Observer(${displayName})`;
 
   if (options?.forwardRef) {
@@ -298,6 +422,105 @@ export function useSyncedStore<T>(store: T): T {
   return store;
 }
 
+// ============================================================================
+// Selector Hooks
+// ============================================================================
+
+/** Equality function used by useSelector to decide whether to re-render */
+type EqualityFn<S> = (previous: S, next: S) => boolean;
+
+/**
+ * Shallow equality for arrays and plain objects - compares items/keys with Object.is.
+ */
+export function shallowEqual<S>(previous: S, next: S): boolean {
+  if (Object.is(previous, next)) return true;
+  if (
+    !previous ||
+    !next ||
+    typeof previous !== "object" ||
+    typeof next !== "object"
+  ) {
+    return false;
+  }
+  const previousKeys = Object.keys(previous);
+  if (previousKeys.length !== Object.keys(next).length) return false;
+  return previousKeys.every(
+    (key) =>
+      Object.prototype.hasOwnProperty.call(next, key) &&
+      Object.is(
+        (previous as Record<string, unknown>)[key],
+        (next as Record<string, unknown>)[key],
+      ),
+  );
+}
+
+/**
+ * Select a value from a state tree, re-rendering only when the selected value changes.
+ * The selector runs again after each change notification of the tree (including
+ * volatile state); its result is compared with the previous one using `equalityFn`
+ * (Object.is by default).
+ *
+ * @example
+ * const doneCount = useSelector(store, (s) => s.todos.filter((t) => t.done).length);
+ * const titles = useSelector(store, (s) => s.todos.map((t) => t.title), shallowEqual);
+ */
+export function useSelector<T, S>(
+  target: T,
+  selector: (store: T) => S,
+  equalityFn: EqualityFn<S> = Object.is,
+): S {
+  const memoRef = useRef<{
+    target: T;
+    snapshot: unknown;
+    version: number;
+    selector: (store: T) => S;
+    selection: S;
+  } | null>(null);
+  // Bumped on every notification: views over volatile state change without
+  // a new snapshot
+  const versionRef = useRef(0);
+
+  const subscribe = useCallback(
+    (onStoreChange: () => void) => {
+      if (!hasStateTreeNode(target)) {
+        return () => {};
+      }
+      return onSnapshot(target, () => {
+        versionRef.current++;
+        onStoreChange();
+      });
+    },
+    [target],
+  );
+
+  // The snapshot also covers changes made before subscribing
+  const getSelection = () => {
+    const snapshot = hasStateTreeNode(target) ? getSnapshot(target) : target;
+    const version = versionRef.current;
+    const memoized = memoRef.current;
+    if (
+      memoized &&
+      memoized.target === target &&
+      memoized.snapshot === snapshot &&
+      memoized.version === version &&
+      memoized.selector === selector
+    ) {
+      return memoized.selection;
+    }
+    const next = selector(target);
+    const selection =
+      memoized &&
+      memoized.target === target &&
+      equalityFn(memoized.selection, next)
+        ? memoized.selection
+        : next;
+    memoRef.current = { target, snapshot, version, selector, selection };
+    return selection;
+  };
+
+  return useSyncExternalStore(subscribe, getSelection, getSelection);
+}
+
 // ============================================================================
 // Provider Component - Legacy (untyped)
 // ============================================================================
@@ -451,6 +674,17 @@ export function createStoreContext<T>() {
     return store;
   }
 
+  /**
+   * Hook that selects a value from the store, re-rendering only when it changes.
+   */
+  function useTypedSelector<S>(
+    selector: (store: T) => S,
+    equalityFn?: EqualityFn<S>,
+  ): S {
+    const store = useTypedStore();
+    return useSelector(store, selector, equalityFn);
+  }
+
   /**
    * Hook that returns whether the store is alive.
    */
@@ -463,6 +697,7 @@ export function createStoreContext<T>() {
     Provider: StoreProvider,
     useStore: useTypedStore,
     useStoreSnapshot: useTypedStoreSnapshot,
+    useSelector: useTypedSelector,
     useIsAlive: useTypedIsAlive,
     Context,
   };
@@ -577,11 +812,12 @@ let pendingUpdates: Set<() => void> = new Set();
 
 /**
  * Batch multiple state updates to trigger a single re-render.
+ * Tree listeners (and so observers) are notified once the batch is done.
  */
 export function batch(fn: () => void): void {
   batchDepth++;
   try {
-    fn();
+    deferNotifications(fn);
   } finally {
     batchDepth--;
     if (batchDepth === 0 && pendingUpdates.size > 0) {
@@ -659,4 +895,4 @@ export { hasStateTreeNode };
 // Type Exports
 // ============================================================================
 
-export type { ObserverOptions };
+export type { ObserverOptions, EqualityFn };
@@ -20,12 +20,15 @@ import type {
   IType,
   IValidationContext,
   IValidationResult,
+  ICreateOptions,
+  StandardSchemaV1Props,
 } from "./types";
 import {
   $treenode,
   getStateTreeNode,
   StateTreeNode,
   resolveIdentifier,
+  getStandardSchema,
 } from "./tree";
 
 // ============================================================================
@@ -311,6 +314,10 @@ class LateModelType<T extends IAnyType>
   readonly _S!: T extends IType<unknown, infer S, unknown> ? S : unknown;
   readonly _T!: T extends IType<unknown, unknown, infer I> ? I : unknown;
 
+  get "~standard"(): StandardSchemaV1Props<this["_C"]> {
+    return getStandardSchema(this);
+  }
+
   private _resolvedType?: T;
 
   constructor(modelName: string) {
@@ -328,8 +335,9 @@ class LateModelType<T extends IAnyType>
   create(
     snapshot?: T extends IType<infer C, unknown, unknown> ? C : unknown,
     env?: unknown,
+    options?: ICreateOptions,
   ): T extends IType<unknown, unknown, infer I> ? I : unknown {
-    return this.getType().create(snapshot, env) as T extends IType<
+    return this.getType().create(snapshot, env, options) as T extends IType<
       unknown,
       unknown,
       infer I
@@ -441,6 +449,10 @@ class DynamicReferenceType<T extends IAnyType>
   readonly _S!: string | number;
   readonly _T!: T extends IType<unknown, unknown, infer I> ? I : unknown;
 
+  get "~standard"(): StandardSchemaV1Props<this["_C"]> {
+    return getStandardSchema(this);
+  }
+
   constructor(modelName: string, options: DynamicReferenceOptions<T> = {}) {
     this._modelName = modelName;
     this._options = options;
@@ -640,6 +652,10 @@ class SafeDynamicReferenceType<T extends IAnyType>
     | (T extends IType<unknown, unknown, infer I> ? I : unknown)
     | undefined;
 
+  get "~standard"(): StandardSchemaV1Props<this["_C"]> {
+    return getStandardSchema(this);
+  }
+
   constructor(modelName: string, options: DynamicReferenceOptions<T> = {}) {
     this._modelName = modelName;
     this._options = options;
@@ -0,0 +1,639 @@
+/**
+ * JSON Schema for jotai-state-tree
+ * Describes the snapshot shape of types as draft 2020-12 JSON Schemas
+ */
+
+import type {
+  IAnyType,
+  ModelProperties,
+  IAnyModelType,
+  IArrayType,
+  IMapType,
+  IOptionalType,
+  IMaybeNullType,
+  IUnionType,
+  ILiteralType,
+  IEnumerationType,
+  ILateType,
+  IRefinementType,
+  IReferenceType,
+} from "./types";
+import {
+  string,
+  number,
+  integer,
+  boolean,
+  DatePrimitive,
+  nullType,
+  finite,
+  literal,
+  enumeration,
+  frozen,
+} from "./primitives";
+import { model } from "./model";
+import { array } from "./array";
+import { map } from "./map";
+import {
+  optional,
+  maybe,
+  maybeNull,
+  union,
+  late,
+  refinement,
+} from "./utilities";
+import { resolveModel } from "./registry";
+import { escapeJsonPath, splitJsonPath, SNAPSHOT_VERSION_KEY } from "./tree";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type JsonSchemaTypeName =
+  "string" | "number" | "integer" | "boolean" | "null" | "object" | "array";
+
+/** A draft 2020-12 JSON Schema, limited to the keywords used for snapshots */
+export interface IJsonSchema {
+  $schema?: string;
+  $ref?: string;
+  $defs?: Record<string, IJsonSchema>;
+  title?: string;
+  description?: string;
+  type?: JsonSchemaTypeName | JsonSchemaTypeName[];
+  properties?: Record<string, IJsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | IJsonSchema;
+  items?: IJsonSchema;
+  anyOf?: IJsonSchema[];
+  oneOf?: IJsonSchema[];
+  const?: unknown;
+  enum?: unknown[];
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+  /** Name of the model an identifier refers to (references only) */
+  "x-reference"?: string;
+  [keyword: string]: unknown;
+}
+
+const JSON_SCHEMA_DIALECT = "https://json-schema.org/draft/2020-12/schema";
+
+// ============================================================================
+// Type to Schema
+// ============================================================================
+
+interface SchemaContext {
+  /** Schemas of the models met so far, keyed by their $defs name */
+  defs: Record<string, IJsonSchema>;
+  /** $defs name of each model, assigned before its properties are walked */
+  names: Map<IAnyType, string>;
+  /** Late types being resolved, to detect recursion that never reaches a model */
+  resolving: Set<IAnyType>;
+}
+
+/** Schemas of the primitive types, by identity */
+const primitiveSchemas = new Map<IAnyType, IJsonSchema>([
+  [string, { type: "string" }],
+  [number, { type: "number" }],
+  [integer, { type: "integer" }],
+  [boolean, { type: "boolean" }],
+  [DatePrimitive, { type: "number" }],
+  [nullType, { type: "null" }],
+  [finite, { type: "number" }],
+]);
+
+/**
+ * Whether a model property must be present in a snapshot -
+ * types that create a value from `undefined` may be left out
+ */
+function isRequiredProperty(type: IAnyType): boolean {
+  switch (type._kind) {
+    case "optional":
+    case "maybe":
+    case "maybeNull":
+    case "safeReference":
+    case "safeDynamicReference":
+    case "frozen":
+      return false;
+    case "late":
+      return isRequiredProperty((type as ILateType<IAnyType>)._definition());
+    case "refinement":
+      return isRequiredProperty((type as IRefinementType<IAnyType>)._subType);
+    default:
+      return true;
+  }
+}
+
+/** Unwrap late types to get at a reference's target model */
+function resolveTarget(type: IAnyType): IAnyType {
+  let target = type;
+  while (target._kind === "late") {
+    target = (target as ILateType<IAnyType>)._definition();
+  }
+  return target;
+}
+
+function referenceSchema(target: IAnyType): IJsonSchema {
+  const model = resolveTarget(target) as IAnyModelType;
+  const idAttribute = model.identifierAttribute;
+  const idType = idAttribute
+    ? (model.properties[idAttribute] as IAnyType)
+    : undefined;
+  return {
+    type:
+      idType?._kind === "identifierNumber"
+        ? "number"
+        : idType?._kind === "identifier"
+          ? "string"
+          : ["string", "number"],
+    "x-reference": model.name,
+  };
+}
+
+function modelSchema(type: IAnyModelType, context: SchemaContext): IJsonSchema {
+  let name = context.names.get(type);
+  if (name === undefined) {
+    // Models sharing a name get numbered $defs
+    name = type.name;
+    for (let n = 2; name in context.defs; n++) {
+      name = `${type.name}${n}`;
+    }
+    context.names.set(type, name);
+
+    // Added before walking the properties, so recursion ends in a $ref
+    const properties: Record<string, IJsonSchema> = {};
+    const schema: IJsonSchema = { type: "object", title: type.name };
+    context.defs[name] = schema;
+
+    const required: string[] = [];
+    const version = (
+      type as { getConfig?: () => { version?: number } }
+    ).getConfig?.().version;
+    if (version !== undefined) {
+      properties[SNAPSHOT_VERSION_KEY] = {
+        type: "integer",
+        minimum: 0,
+        maximum: version,
+      };
+    }
+    for (const [key, propType] of Object.entries(type.properties)) {
+      properties[key] = typeToSchema(propType as IAnyType, context);
+      if (isRequiredProperty(propType as IAnyType)) required.push(key);
+    }
+    schema.properties = properties;
+    if (required.length > 0) schema.required = required;
+  }
+  return { $ref: `#/$defs/${encodeURIComponent(escapeJsonPath(name))}` };
+}
+
+function typeToSchema(type: IAnyType, context: SchemaContext): IJsonSchema {
+  switch (type._kind) {
+    case "model":
+      return modelSchema(type as IAnyModelType, context);
+    case "array":
+      return {
+        type: "array",
+        items: typeToSchema((type as IArrayType<IAnyType>)._subType, context),
+      };
+    case "map":
+      return {
+        type: "object",
+        additionalProperties: typeToSchema(
+          (type as IMapType<IAnyType>)._subType,
+          context,
+        ),
+      };
+    case "optional": {
+      const optional = type as IOptionalType<IAnyType, unknown>;
+      const schema = typeToSchema(optional._subType, context);
+      // Defaults computed by a function are only known at creation
+      return typeof optional._defaultValue === "function"
+        ? schema
+        : { ...schema, default: optional._defaultValue };
+    }
+    case "maybe": {
+      // `undefined` leaves the property out of the snapshot
+      const subType = (type as { _subType?: IAnyType })._subType;
+      return subType ? typeToSchema(subType, context) : {};
+    }
+    case "maybeNull":
+      return {
+        anyOf: [
+          typeToSchema((type as IMaybeNullType<IAnyType>)._subType, context),
+          { type: "null" },
+        ],
+      };
+    case "union":
+      return {
+        anyOf: (type as IUnionType<IAnyType[]>)._types.map((subType) =>
+          typeToSchema(subType, context),
+        ),
+      };
+    case "literal":
+      return { const: (type as ILiteralType<string>)._value };
+    case "enumeration": {
+      const options = (type as IEnumerationType<string>)._options;
+      return type.name === "enumeration"
+        ? { type: "string", enum: [...options] }
+        : { title: type.name, type: "string", enum: [...options] };
+    }
+    case "frozen":
+      return {};
+    case "late": {
+      if (context.resolving.has(type)) {
+        throw new Error(
+          `[jotai-state-tree] Cannot describe '${type.name}' in JSON Schema, recursive types must recurse through a model`,
+        );
+      }
+      context.resolving.add(type);
+      try {
+        return typeToSchema(
+          (type as ILateType<IAnyType>)._definition(),
+          context,
+        );
+      } finally {
+        context.resolving.delete(type);
+      }
+    }
+    case "lateModel":
+      return typeToSchema(
+        resolveModel((type as IAnyType & { _modelName: string })._modelName),
+        context,
+      );
+    case "refinement":
+      // Predicates can't be expressed, the refined type is described
+      return typeToSchema(
+        (type as IRefinementType<IAnyType>)._subType,
+        context,
+      );
+    case "reference":
+    case "safeReference":
+      return referenceSchema(
+        (type as IReferenceType<IAnyModelType>)._targetType,
+      );
+    case "dynamicReference":
+    case "safeDynamicReference":
+      return {
+        type: ["string", "number"],
+        "x-reference": (type as IAnyType & { _modelName: string })._modelName,
+      };
+    case "identifier":
+      return { type: "string" };
+    case "identifierNumber":
+      return { type: "number" };
+    default: {
+      // Custom types only name their snapshot
+      const schema = primitiveSchemas.get(type);
+      return schema ? { ...schema } : { title: type.name };
+    }
+  }
+}
+
+/**
+ * Describe the snapshot shape of a type as a draft 2020-12 JSON Schema.
+ * Models are described in `$defs` (which makes recursion possible), references
+ * are described as the identifier of their target, named by `x-reference`.
+ *
+ * @example
+ * const schema = toJSONSchema(Todo);
+ * // { $schema: "...", $ref: "#/$defs/Todo", $defs: { Todo: { type: "object", ... } } }
+ */
+export function toJSONSchema(type: IAnyType): IJsonSchema {
+  const context: SchemaContext = {
+    defs: {},
+    names: new Map(),
+    resolving: new Set(),
+  };
+  const schema: IJsonSchema = {
+    $schema: JSON_SCHEMA_DIALECT,
+    ...typeToSchema(type, context),
+  };
+  if (Object.keys(context.defs).length > 0) {
+    schema.$defs = context.defs;
+  }
+  return schema;
+}
+
+// ============================================================================
+// Schema to Type
+// ============================================================================
+
+interface TypeContext {
+  /** The schema document, `$ref` pointers are resolved against it */
+  root: IJsonSchema;
+  /** Type of each `$ref` target, built once */
+  targets: Map<string, IAnyType>;
+  /** Late type of each `$ref`, shared by every use of it */
+  refs: Map<string, IAnyType>;
+}
+
+/** Keywords of a document that only refers to one of its definitions */
+const documentKeywords = new Set([
+  "$schema",
+  "$id",
+  "$ref",
+  "$defs",
+  "definitions",
+  "title",
+  "description",
+]);
+
+/** Keywords combining schemas in ways types can't describe */
+const unsupportedKeywords = ["allOf", "not", "if", "then", "else"];
+
+function unsupported(path: string, reason: string): Error {
+  return new Error(
+    `[jotai-state-tree] Unsupported JSON Schema at '${path}': ${reason}`,
+  );
+}
+
+function resolvePointer(ref: string, context: TypeContext): IJsonSchema {
+  if (!ref.startsWith("#")) {
+    throw new Error(
+      `[jotai-state-tree] Cannot resolve '${ref}', only references within the schema are supported`,
+    );
+  }
+  let target: unknown = context.root;
+  for (const segment of splitJsonPath(decodeURIComponent(ref.slice(1)))) {
+    target =
+      target && typeof target === "object"
+        ? (target as Record<string, unknown>)[segment]
+        : undefined;
+  }
+  if (!target || typeof target !== "object") {
+    throw new Error(
+      `[jotai-state-tree] JSON Schema reference '${ref}' does not resolve to a schema`,
+    );
+  }
+  return target as IJsonSchema;
+}
+
+function typeFromRef(ref: string, context: TypeContext): IAnyType {
+  let type = context.targets.get(ref);
+  if (!type) {
+    const name = splitJsonPath(decodeURIComponent(ref.slice(1))).pop();
+    type = typeFromSchema(resolvePointer(ref, context), context, ref, name);
+    context.targets.set(ref, type);
+  }
+  return type;
+}
+
+/** Union of types, `null` alternatives of a single type become `maybeNull` */
+function unionOf(alternatives: IAnyType[]): IAnyType {
+  const others = alternatives.filter((type) => type !== nullType);
+  if (others.length === alternatives.length) {
+    return alternatives.length === 1 ? alternatives[0] : union(...alternatives);
+  }
+  if (others.length === 1) return maybeNull(others[0]);
+  return others.length === 0 ? nullType : union(...alternatives);
+}
+
+function constType(value: unknown): IAnyType {
+  if (value === null) return nullType;
+  if (
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean"
+  ) {
+    return literal(value);
+  }
+  return frozen();
+}
+
+/** Refine a type with the validation keywords of its schema */
+function withConstraints(type: IAnyType, schema: IJsonSchema): IAnyType {
+  const checks: Array<[(value: never) => boolean, string]> = [];
+  const { minLength, maxLength, pattern, minItems, maxItems } = schema;
+  const { minimum, maximum, exclusiveMinimum, exclusiveMaximum, multipleOf } =
+    schema;
+
+  // Lengths count code points, like JSON Schema
+  if (minLength !== undefined) {
+    checks.push([
+      (value: string) => [...value].length >= minLength,
+      `must be at least ${minLength} characters long`,
+    ]);
+  }
+  if (maxLength !== undefined) {
+    checks.push([
+      (value: string) => [...value].length <= maxLength,
+      `must be at most ${maxLength} characters long`,
+    ]);
+  }
+  if (pattern !== undefined) {
+    const regExp = new RegExp(pattern, "u");
+    checks.push([
+      (value: string) => regExp.test(value),
+      `must match the pattern ${pattern}`,
+    ]);
+  }
+  if (minimum !== undefined) {
+    checks.push([(value: number) => value >= minimum, `must be >= ${minimum}`]);
+  }
+  if (maximum !== undefined) {
+    checks.push([(value: number) => value <= maximum, `must be <= ${maximum}`]);
+  }
+  if (exclusiveMinimum !== undefined) {
+    checks.push([
+      (value: number) => value > exclusiveMinimum,
+      `must be > ${exclusiveMinimum}`,
+    ]);
+  }
+  if (exclusiveMaximum !== undefined) {
+    checks.push([
+      (value: number) => value < exclusiveMaximum,
+      `must be < ${exclusiveMaximum}`,
+    ]);
+  }
+  if (multipleOf !== undefined) {
+    checks.push([
+      (value: number) => Number.isInteger(value / multipleOf),
+      `must be a multiple of ${multipleOf}`,
+    ]);
+  }
+  if (minItems !== undefined) {
+    checks.push([
+      (value: unknown[]) => value.length >= minItems,
+      `must have at least ${minItems} items`,
+    ]);
+  }
+  if (maxItems !== undefined) {
+    checks.push([
+      (value: unknown[]) => value.length <= maxItems,
+      `must have at most ${maxItems} items`,
+    ]);
+  }
+
+  if (checks.length === 0) return type;
+  const failed = (value: unknown) =>
+    checks.find(([check]) => !check(value as never));
+  return refinement(
+    type,
+    (value) => failed(value) === undefined,
+    (value) => `Value ${JSON.stringify(value)} ${failed(value)?.[1]}`,
+  );
+}
+
+function modelFromSchema(
+  schema: IJsonSchema,
+  context: TypeContext,
+  path: string,
+  name: string | undefined,
+): IAnyType {
+  const required = new Set(schema.required ?? []);
+  const properties: ModelProperties = {};
+  for (const [key, propSchema] of Object.entries(schema.properties ?? {})) {
+    // Versions of snapshots are left to the model's own migrations
+    if (key === SNAPSHOT_VERSION_KEY) continue;
+
+    const type = typeFromSchema(
+      propSchema,
+      context,
+      `${path}/properties/${escapeJsonPath(key)}`,
+    );
+    if (required.has(key) || type._kind === "maybeNull") {
+      properties[key] = type;
+    } else if ("default" in propSchema) {
+      properties[key] = optional(type, propSchema.default as never);
+    } else {
+      properties[key] = maybe(type);
+    }
+  }
+  return model(schema.title ?? name ?? "AnonymousModel", properties);
+}
+
+function typeFromSchema(
+  schema: IJsonSchema,
+  context: TypeContext,
+  path: string,
+  name?: string,
+): IAnyType {
+  for (const keyword of unsupportedKeywords) {
+    if (keyword in schema) {
+      throw unsupported(path, `'${keyword}' can't be described by a type`);
+    }
+  }
+
+  if (schema.$ref !== undefined) {
+    const ref = schema.$ref;
+    let type = context.refs.get(ref);
+    if (!type) {
+      // Resolved on first use, so schemas may refer to themselves
+      const refName = splitJsonPath(decodeURIComponent(ref.slice(1))).pop();
+      type = late(refName || ref, () => typeFromRef(ref, context));
+      context.refs.set(ref, type);
+    }
+    return type;
+  }
+  if ("const" in schema) {
+    return constType(schema.const);
+  }
+  if (schema.enum) {
+    const options = schema.enum;
+    if (options.every((option) => typeof option === "string")) {
+      const enumName = schema.title ?? name;
+      return enumName
+        ? enumeration(enumName, options as string[])
+        : enumeration(options as string[]);
+    }
+    return unionOf(options.map(constType));
+  }
+
+  const alternatives = schema.anyOf ?? schema.oneOf;
+  if (alternatives) {
+    const keyword = schema.anyOf ? "anyOf" : "oneOf";
+    return unionOf(
+      alternatives.map((alternative, index) =>
+        typeFromSchema(alternative, context, `${path}/${keyword}/${index}`),
+      ),
+    );
+  }
+  if (Array.isArray(schema.type)) {
+    return unionOf(
+      schema.type.map((type) =>
+        typeFromSchema({ ...schema, type }, context, path, name),
+      ),
+    );
+  }
+
+  switch (schema.type) {
+    case "string":
+      return withConstraints(string, schema);
+    case "number":
+      return withConstraints(number, schema);
+    case "integer":
+      return withConstraints(integer, schema);
+    case "boolean":
+      return boolean;
+    case "null":
+      return nullType;
+    case "array":
+      return withConstraints(
+        array(
+          schema.items
+            ? typeFromSchema(schema.items, context, `${path}/items`)
+            : frozen(),
+        ),
+        schema,
+      );
+    case "object":
+    case undefined:
+      break;
+    default:
+      throw unsupported(path, `unknown type '${String(schema.type)}'`);
+  }
+
+  // Objects, with or without their type
+  if (schema.properties) {
+    return modelFromSchema(schema, context, path, name);
+  }
+  if (
+    schema.additionalProperties &&
+    typeof schema.additionalProperties === "object"
+  ) {
+    return map(
+      typeFromSchema(
+        schema.additionalProperties,
+        context,
+        `${path}/additionalProperties`,
+      ),
+    );
+  }
+  if (schema.type === undefined && schema.items) {
+    return typeFromSchema({ ...schema, type: "array" }, context, path, name);
+  }
+  // Anything else is kept as is
+  return frozen();
+}
+
+/**
+ * Build a type from a JSON Schema document - the reverse of `toJSONSchema`.
+ * Objects with properties become models (named by their `title` or `$defs` key),
+ * objects with `additionalProperties` become maps, and validation keywords such
+ * as `minimum` or `pattern` become refinements. `$ref`s are resolved through
+ * `types.late`, so schemas may be recursive. Properties that aren't `required`
+ * are `optional` with their `default`, or `maybe` without one.
+ *
+ * @example
+ * const Todo = fromJSONSchema(await (await fetch("/schemas/todo.json")).json());
+ * const todo = Todo.create({ title: "Write docs" });
+ */
+export function fromJSONSchema(schema: IJsonSchema): IAnyType {
+  const context: TypeContext = {
+    root: schema,
+    targets: new Map(),
+    refs: new Map(),
+  };
+  // A document referring to one of its definitions is that definition
+  const isRefDocument =
+    schema.$ref !== undefined &&
+    Object.keys(schema).every((keyword) => documentKeywords.has(keyword));
+  return typeFromRef(isRefDocument ? schema.$ref! : "#", context);
+}
@@ -9,7 +9,14 @@
  * - Properly cleans up all registries on node destruction
  */
 
-import { atom, createStore, type WritableAtom } from "jotai";
+import {
+  atom,
+  createStore,
+  type Atom,
+  type PrimitiveAtom,
+  type Getter,
+  type WritableAtom,
+} from "jotai";
 import type {
   IStateTreeNode,
   IType,
@@ -18,7 +25,13 @@ import type {
   IJsonPatch,
   IReversibleJsonPatch,
   IDisposer,
+  LivelinessMode,
+  JotaiStore,
+  ReferenceResolver,
+  IValidationError,
+  StandardSchemaV1Props,
 } from "./types";
+import type { IMiddlewareEvent, ILifecycleHooks } from "./lifecycle";
 
 // Re-export IDisposer for convenience
 export type { IDisposer };
@@ -35,14 +48,114 @@ export function getGlobalStore() {
   return globalStore;
 }
 
+/**
+ * Bumped whenever the global store is swapped, since node values are read
+ * from the store and every cached snapshot becomes stale at once
+ */
+let snapshotEpoch = 0;
+
+/** Store for nodes created without a parent, set while creating a tree with `{ store }` */
+let creationStore: JotaiStore | null = null;
+
+/** Create the nodes made by `fn` in `store` (see `ICreateOptions`) */
+export function runWithCreationStore<T>(store: JotaiStore, fn: () => T): T {
+  const previousStore = creationStore;
+  creationStore = store;
+  try {
+    return fn();
+  } finally {
+    creationStore = previousStore;
+  }
+}
+
+/** Snapshot property holding the version of a versioned model */
+export const SNAPSHOT_VERSION_KEY = "$version";
+
+/** Path segments of the snapshot being created or applied, for error messages */
+let snapshotPath: string[] = [];
+
+/** Create or apply the part of the current snapshot found under `segment` */
+export function runAtSnapshotPath<T>(segment: string, fn: () => T): T {
+  snapshotPath.push(segment);
+  try {
+    return fn();
+  } finally {
+    snapshotPath.pop();
+  }
+}
+
+/** JSON pointer of the snapshot being created or applied */
+export function getSnapshotPath(): string {
+  return "/" + snapshotPath.map(escapeJsonPath).join("/");
+}
+
+/** Getter of the view atom being computed, and the store it is computed in */
+let viewTracking: { get: Getter; store: JotaiStore } | null = null;
+
+/** Compute a view inside a derived atom - the node atoms it reads become its dependencies */
+export function runTrackingView<T>(
+  get: Getter,
+  store: JotaiStore,
+  fn: () => T,
+): T {
+  const previousTracking = viewTracking;
+  viewTracking = { get, store };
+  try {
+    return fn();
+  } finally {
+    viewTracking = previousTracking;
+  }
+}
+
+/** Atom read hook - set by lifecycle.ts to avoid circular imports */
+let atomReadHook: ((anAtom: Atom<unknown>, store: JotaiStore) => void) | null =
+  null;
+
+/** Register the atom read hook (called by lifecycle.ts) */
+export function registerAtomReadHook(
+  hook: (anAtom: Atom<unknown>, store: JotaiStore) => void,
+): () => void {
+  atomReadHook = hook;
+  return () => {
+    if (atomReadHook === hook) {
+      atomReadHook = null;
+    }
+  };
+}
+
+/** Read an atom of `node`, as a dependency of the view being computed (if any) */
+export function readNodeAtom<T>(node: StateTreeNode, anAtom: Atom<T>): T {
+  // Atoms of trees in other stores can't be dependencies
+  if (viewTracking && viewTracking.store === node.$store) {
+    return viewTracking.get(anAtom);
+  }
+  if (!viewTracking) {
+    atomReadHook?.(anAtom, node.$store);
+  }
+  return node.$store.get(anAtom);
+}
+
+/** Make an atom of `node` a dependency of the view being computed, without needing its value */
+export function trackNodeAtom(node: StateTreeNode, anAtom: Atom<unknown>) {
+  if (viewTracking) {
+    if (viewTracking.store === node.$store) {
+      viewTracking.get(anAtom);
+    }
+  } else {
+    atomReadHook?.(anAtom, node.$store);
+  }
+}
+
 /** Set a custom global store (useful for testing) */
-export function setGlobalStore(store: ReturnType<typeof createStore>) {
+export function setGlobalStore(store: JotaiStore) {
   globalStore = store;
+  snapshotEpoch++;
 }
 
 /** Reset the global store (useful for testing) */
 export function resetGlobalStore() {
   globalStore = createStore();
+  snapshotEpoch++;
 }
 
 // ============================================================================
@@ -83,7 +196,8 @@ const identifierRegistry = new Map<
 const identifierFinalizationRegistry = new FinalizationRegistry(
   (info: { typeName: string; identifier: string | number }) => {
     const typeMap = identifierRegistry.get(info.typeName);
-    if (typeMap) {
+    // Keep the entry if another node registered the identifier since
+    if (typeMap && !typeMap.get(info.identifier)?.deref()) {
       typeMap.delete(info.identifier);
       // Clean up empty type maps
       if (typeMap.size === 0) {
@@ -128,12 +242,59 @@ export function onLifecycleChange(
 
 /** Notify lifecycle listeners */
 function notifyLifecycleChange(node: StateTreeNode, isAlive: boolean) {
+  // Inside an action listeners are notified once it ends
+  if (pendingSnapshotNodes) {
+    pendingLifecycleChanges.push([node, isAlive]);
+    return;
+  }
   const listeners = lifecycleListeners.get(node);
   if (listeners) {
     listeners.forEach((listener) => listener(isAlive));
   }
 }
 
+// ============================================================================
+// Liveliness Checking
+// ============================================================================
+
+/** How access to destroyed nodes is reported */
+let livelinessMode: LivelinessMode = "warn";
+
+/** Set how reads, writes, view access and action calls on destroyed nodes are reported */
+export function setLivelinessChecking(mode: LivelinessMode): void {
+  livelinessMode = mode;
+}
+
+/** Get the current liveliness checking mode */
+export function getLivelinessChecking(): LivelinessMode {
+  return livelinessMode;
+}
+
+/**
+ * Report access to a destroyed node according to the liveliness mode.
+ * Returns whether the node is alive, so writes can be skipped on dead nodes.
+ */
+export function assertAlive(
+  node: StateTreeNode,
+  operation: string,
+  subpath: string = "",
+): boolean {
+  if (node.$isAlive) return true;
+  if (livelinessMode === "ignore") return false;
+
+  const message =
+    `[jotai-state-tree] You are trying to read or write to an object that is no longer part of a state tree. ` +
+    `(Object type: '${node.$type.name}', Path upon death: '${node.$path || "/"}', ` +
+    `Subpath: '${subpath}', Operation: '${operation}'). ` +
+    `Either detach nodes first, or don't use objects after removing / replacing them in the tree.`;
+
+  if (livelinessMode === "error") {
+    throw new Error(message);
+  }
+  console.warn(message);
+  return false;
+}
+
 // ============================================================================
 // State Tree Node Implementation
 // ============================================================================
@@ -152,6 +313,9 @@ export class StateTreeNode implements IStateTreeNode {
   /** Atom storing the raw value/snapshot */
   valueAtom: WritableAtom<unknown, [unknown], void>;
 
+  /** Counts changes to this node's own value, created on first use */
+  private changeAtom: PrimitiveAtom<number> | null = null;
+
   /** Snapshot listeners */
   private snapshotListeners = new Set<(snapshot: unknown) => void>();
 
@@ -160,13 +324,36 @@ export class StateTreeNode implements IStateTreeNode {
     (patch: IJsonPatch, reversePatch: IReversibleJsonPatch) => void
   >();
 
-  /** Volatile state (non-serialized) */
-  volatileState: Record<string, unknown> = {};
+  /** Volatile state (non-serialized), prototype-free so `in` only sees own keys */
+  volatileState: Record<string, unknown> = Object.create(null);
 
   /** Pre/post process snapshot functions */
   preProcessor?: (snapshot: unknown) => unknown;
   postProcessor?: (snapshot: unknown) => unknown;
 
+  /** Lifecycle hooks bound to the instance (set by model types) */
+  hooks: Omit<ILifecycleHooks, "afterCreate"> = {};
+
+  /** Applies a snapshot by reconciling children (set by array and map types) */
+  reconcileSnapshot?: (snapshot: unknown) => void;
+
+  /** Atom reading and writing a property through the instance (set by model types) */
+  propertyAtom?: (
+    key: string,
+  ) => WritableAtom<unknown, [unknown], void> | undefined;
+
+  /** Derived atom computing a getter view (set by model types) */
+  viewAtom?: (key: string) => Atom<unknown> | undefined;
+
+  /** Identifier index of the whole tree (id -> nodes), only kept on root nodes */
+  private identifierIndex: Map<string, StateTreeNode[]> | null = null;
+
+  /** Store of the tree this node belongs to - `null` uses the global store */
+  treeStore: JotaiStore | null;
+
+  /** Last computed snapshot - unchanged subtrees keep sharing it with their parents */
+  private snapshotCache: { snapshot: unknown; epoch: number } | null = null;
+
   /** Identifier value if this node has one */
   identifierValue?: string | number;
 
@@ -184,7 +371,11 @@ export class StateTreeNode implements IStateTreeNode {
     this.$type = type;
     this.$env = env ?? parent?.$env;
     this.$parent = parent ?? null;
-    this.$path = parent ? `${parent.$path}/${pathSegment}` : "";
+    this.$path = parent
+      ? `${parent.$path}/${escapeJsonPath(pathSegment ?? "")}`
+      : "";
+
+    this.treeStore = parent ? parent.treeStore : creationStore;
 
     // Create the value atom
     this.valueAtom = atom(initialValue);
@@ -212,26 +403,36 @@ export class StateTreeNode implements IStateTreeNode {
 
   /** Get current value from atom */
   getValue(): unknown {
-    return globalStore.get(this.valueAtom);
+    return this.$store.get(this.valueAtom);
+  }
+
+  /** Jotai store holding the values of this node's tree */
+  get $store(): JotaiStore {
+    return this.treeStore ?? globalStore;
   }
 
   /** Set value on atom */
-  setValue(value: unknown) {
-    if (!this.$isAlive) {
-      throw new Error(
-        `[jotai-state-tree] Cannot modify a node that is no longer part of the state tree. ` +
-          `(Node type: '${this.$type.name}', Path: '${this.$path}')`,
-      );
-    }
+  setValue(
+    value: unknown,
+    patches?: Array<[IJsonPatch, IReversibleJsonPatch]>,
+  ) {
+    if (!assertAlive(this, "write")) return;
 
     const oldValue = this.getValue();
-    globalStore.set(this.valueAtom, value);
+    this.$store.set(this.valueAtom, value);
+    this.invalidateSnapshot();
 
-    // Notify patch listeners
-    this.notifyPatch(
-      { op: "replace", path: this.$path, value },
-      { op: "replace", path: this.$path, value: oldValue, oldValue },
-    );
+    // Notify patch listeners - collections pass granular patches for the change
+    if (patches) {
+      for (const [patch, reversePatch] of patches) {
+        this.notifyPatch(patch, reversePatch);
+      }
+    } else {
+      this.notifyPatch(
+        { op: "replace", path: this.$path, value },
+        { op: "replace", path: this.$path, value: oldValue, oldValue },
+      );
+    }
 
     // Notify snapshot listeners (bubble up to root)
     this.notifySnapshotChange();
@@ -239,11 +440,28 @@ export class StateTreeNode implements IStateTreeNode {
 
   /** Add a child node */
   addChild(key: string, child: StateTreeNode) {
+    const attaching = child.$parent !== this;
+    if (attaching) {
+      // Move the identifiers of the subtree into the index of this tree
+      const identified = child.getIdentifiedNodes();
+      const root = this.getRoot();
+      root.assertUniqueIdentifiers(identified);
+      child.getRoot().unindexIdentifiers(identified);
+      root.indexIdentifiers(identified);
+    }
+    if (child.treeStore !== this.treeStore) {
+      child.moveToStore(this.treeStore);
+    }
     child.$parent = this;
-    const newPath = `${this.$path}/${key}`;
+    const newPath = `${this.$path}/${escapeJsonPath(key)}`;
     this.updatePathRecursively(child, newPath);
     child.$env = child.$env ?? this.$env;
     this.children.set(key, child);
+    this.invalidateSnapshot();
+
+    if (attaching) {
+      child.runHook("afterAttach");
+    }
   }
 
   /** Recursively update the path of a node and all its children */
@@ -252,7 +470,7 @@ export class StateTreeNode implements IStateTreeNode {
 
     // Update all children's paths
     for (const [childKey, childNode] of node.children) {
-      const childNewPath = `${newPath}/${childKey}`;
+      const childNewPath = `${newPath}/${escapeJsonPath(childKey)}`;
       this.updatePathRecursively(childNode, childNewPath);
     }
   }
@@ -263,6 +481,7 @@ export class StateTreeNode implements IStateTreeNode {
     if (child) {
       child.destroy();
       this.children.delete(key);
+      this.invalidateSnapshot();
     }
   }
 
@@ -281,6 +500,10 @@ export class StateTreeNode implements IStateTreeNode {
     this.identifierTypeName = typeName;
     this.identifierValue = identifier;
 
+    const root = this.getRoot();
+    root.assertUniqueIdentifiers([this]);
+    root.indexIdentifiers([this]);
+
     let typeMap = identifierRegistry.get(typeName);
     if (!typeMap) {
       typeMap = new Map();
@@ -302,8 +525,11 @@ export class StateTreeNode implements IStateTreeNode {
       this.identifierTypeName !== undefined &&
       this.identifierValue !== undefined
     ) {
+      this.getRoot().unindexIdentifiers([this]);
+
       const typeMap = identifierRegistry.get(this.identifierTypeName);
-      if (typeMap) {
+      // Another tree may have registered the same identifier since
+      if (typeMap?.get(this.identifierValue)?.deref() === this) {
         typeMap.delete(this.identifierValue);
         // Clean up empty type maps to prevent accumulation
         if (typeMap.size === 0) {
@@ -315,6 +541,85 @@ export class StateTreeNode implements IStateTreeNode {
     }
   }
 
+  /** Find a node of `type` (or type name) by identifier in this node's tree */
+  findByIdentifier(
+    type: IAnyType | string,
+    identifier: string | number,
+  ): StateTreeNode | undefined {
+    const candidates =
+      this.getRoot().identifierIndex?.get(String(identifier)) ?? [];
+    if (typeof type === "string") {
+      return candidates.find((node) => node.$type.name === type);
+    }
+    return (
+      candidates.find((node) => node.$type === type) ??
+      candidates.find((node) => node.$type.name === type.name)
+    );
+  }
+
+  /** Nodes with a registered identifier in this subtree */
+  private getIdentifiedNodes(): StateTreeNode[] {
+    // The index of a root covers its whole subtree
+    if (!this.$parent) {
+      return [...(this.identifierIndex?.values() ?? [])].flat();
+    }
+    const nodes: StateTreeNode[] = [];
+    const collect = (node: StateTreeNode) => {
+      if (node.identifierTypeName !== undefined) {
+        nodes.push(node);
+      }
+      node.children.forEach(collect);
+    };
+    collect(this);
+    return nodes;
+  }
+
+  /** Throw if one of `nodes` would share its type and identifier with another node of this tree */
+  private assertUniqueIdentifiers(nodes: StateTreeNode[]) {
+    const seen = new Set<string>();
+    for (const node of nodes) {
+      const identifier = String(node.identifierValue);
+      const existing = this.identifierIndex
+        ?.get(identifier)
+        ?.find((other) => other.$type === node.$type && other !== node);
+      const key = `${node.$type.name}:${identifier}`;
+      if (existing || seen.has(key)) {
+        throw new Error(
+          `[jotai-state-tree] Duplicate identifier '${identifier}' for type '${node.$type.name}': identifiers must be unique within a tree${existing ? ` (already used at '${existing.$path || "/"}')` : ""}`,
+        );
+      }
+      seen.add(key);
+    }
+  }
+
+  private indexIdentifiers(nodes: StateTreeNode[]) {
+    if (nodes.length === 0) return;
+    const index = (this.identifierIndex ??= new Map());
+    for (const node of nodes) {
+      const identifier = String(node.identifierValue);
+      const entries = index.get(identifier);
+      if (!entries) {
+        index.set(identifier, [node]);
+      } else if (!entries.includes(node)) {
+        entries.push(node);
+      }
+    }
+  }
+
+  private unindexIdentifiers(nodes: StateTreeNode[]) {
+    const index = this.identifierIndex;
+    if (!index) return;
+    for (const node of nodes) {
+      const identifier = String(node.identifierValue);
+      const entries = index.get(identifier)?.filter((other) => other !== node);
+      if (entries?.length) {
+        index.set(identifier, entries);
+      } else {
+        index.delete(identifier);
+      }
+    }
+  }
+
   /** Subscribe to snapshot changes */
   onSnapshot(listener: (snapshot: unknown) => void): IDisposer {
     this.snapshotListeners.add(listener);
@@ -342,17 +647,82 @@ export class StateTreeNode implements IStateTreeNode {
     }
   }
 
-  /** Notify snapshot listeners */
+  /** Notify snapshot listeners on the changed path (this node up to the root) */
   private notifySnapshotChange() {
-    // Get the root and notify its listeners
-    const root = this.getRoot();
-    const snapshot = getSnapshotFromNode(root);
-    root.snapshotListeners.forEach((listener) => listener(snapshot));
+    if (this.changeAtom) {
+      this.$store.set(this.changeAtom, (count) => count + 1);
+    }
+    // Inside a transaction listeners are notified once it ends
+    if (pendingSnapshotNodes) {
+      pendingSnapshotNodes.add(this);
+      return;
+    }
+    let node: StateTreeNode | null = this;
+    while (node) {
+      node.emitSnapshot();
+      node = node.$parent;
+    }
+  }
+
+  /**
+   * Atom changing with every write to this node's own properties, items or
+   * volatile state (unlike `valueAtom`, which models don't write to)
+   */
+  getChangeAtom(): Atom<number> {
+    if (!this.changeAtom) {
+      this.changeAtom = atom(0);
+    }
+    return this.changeAtom;
+  }
+
+  /** Call the snapshot listeners of this node with its current snapshot */
+  emitSnapshot() {
+    // Only compute snapshots for nodes somebody listens to
+    if (this.snapshotListeners.size > 0) {
+      const snapshot = getSnapshotFromNode(this);
+      this.snapshotListeners.forEach((listener) => listener(snapshot));
+    }
+  }
+
+  /** Copy the values of this subtree into another store and keep using it */
+  private moveToStore(store: JotaiStore | null) {
+    (store ?? globalStore).set(this.valueAtom, this.getValue());
+    this.treeStore = store;
+    this.children.forEach((child) => child.moveToStore(store));
+  }
+
+  /** Run a lifecycle hook - hooks behave like actions, so they may modify the tree */
+  private runHook(name: keyof StateTreeNode["hooks"]) {
+    const hook = this.hooks[name];
+    if (hook) {
+      runWithoutProtection(() => hook());
+    }
+  }
+
+  /** Get the cached snapshot, if it is still valid */
+  getCachedSnapshot(): { snapshot: unknown } | null {
+    const cache = this.snapshotCache;
+    return cache && cache.epoch === snapshotEpoch ? cache : null;
+  }
+
+  /** Cache the snapshot computed for this node */
+  cacheSnapshot(snapshot: unknown) {
+    this.snapshotCache = { snapshot, epoch: snapshotEpoch };
+  }
+
+  /** Drop the cached snapshot of this node and its ancestors */
+  invalidateSnapshot() {
+    let node: StateTreeNode | null = this;
+    while (node) {
+      node.snapshotCache = null;
+      node = node.$parent;
+    }
   }
 
   /** Notify about a property change (for use by model proxy) */
   notifyPropertyChange(propName: string, newValue: unknown, oldValue: unknown) {
-    const path = this.$path ? `${this.$path}/${propName}` : `/${propName}`;
+    this.invalidateSnapshot();
+    const path = `${this.$path}/${escapeJsonPath(propName)}`;
     this.notifyPatch(
       { op: "replace", path, value: newValue },
       { op: "replace", path, value: oldValue, oldValue },
@@ -378,6 +748,9 @@ export class StateTreeNode implements IStateTreeNode {
   destroy() {
     if (!this.$isAlive) return;
 
+    // Runs top-down while the whole subtree is still alive
+    this.runHook("beforeDestroy");
+
     // Destroy children first
     this.children.forEach((child) => child.destroy());
     this.children.clear();
@@ -405,6 +778,8 @@ export class StateTreeNode implements IStateTreeNode {
   /** Detach from parent */
   detach() {
     if (this.$parent) {
+      this.runHook("beforeDetach");
+
       // Find our key in parent's children
       for (const [key, child] of this.$parent.children) {
         if (child === this) {
@@ -412,8 +787,14 @@ export class StateTreeNode implements IStateTreeNode {
           break;
         }
       }
+      this.$parent.invalidateSnapshot();
+
+      // The subtree becomes a tree of its own
+      const identified = this.getIdentifiedNodes();
+      this.getRoot().unindexIdentifiers(identified);
       this.$parent = null;
-      this.$path = "";
+      this.indexIdentifiers(identified);
+      this.updatePathRecursively(this, "");
     }
   }
 }
@@ -440,8 +821,36 @@ export function hasStateTreeNode(instance: unknown): boolean {
   );
 }
 
-/** Get snapshot from a node */
+/**
+ * Get snapshot from a node.
+ * Snapshots are cached per node and rebuilt only along changed paths, so unchanged
+ * subtrees keep their snapshot identity. Built snapshots are frozen since they are shared.
+ */
 export function getSnapshotFromNode(node: StateTreeNode): unknown {
+  // Snapshots are not atoms - a view reading one depends on the whole subtree
+  if (viewTracking) {
+    trackSubtreeChanges(node);
+  }
+  return readSnapshot(node);
+}
+
+function trackSubtreeChanges(node: StateTreeNode) {
+  trackNodeAtom(node, node.getChangeAtom());
+  node.getChildren().forEach(trackSubtreeChanges);
+}
+
+function readSnapshot(node: StateTreeNode): unknown {
+  const cached = node.getCachedSnapshot();
+  if (cached) {
+    return cached.snapshot;
+  }
+
+  const snapshot = computeSnapshot(node);
+  node.cacheSnapshot(snapshot);
+  return snapshot;
+}
+
+function computeSnapshot(node: StateTreeNode): unknown {
   const type = node.$type;
   const value = node.getValue();
 
@@ -451,35 +860,37 @@ export function getSnapshotFromNode(node: StateTreeNode): unknown {
     const children = node.getChildren();
 
     for (const [key, childNode] of children) {
-      snapshot[key] = getSnapshotFromNode(childNode);
+      snapshot[key] = readSnapshot(childNode);
     }
 
     // Apply post processor if exists
     if (node.postProcessor) {
-      return node.postProcessor(snapshot);
+      return node.postProcessor(Object.freeze(snapshot));
     }
 
-    return snapshot;
+    return Object.freeze(snapshot);
   }
 
   if (type._kind === "array") {
     const arr = value as unknown[];
-    return arr.map((_, index) => {
-      const childNode = node.getChild(String(index));
-      return childNode ? getSnapshotFromNode(childNode) : arr[index];
-    });
+    return Object.freeze(
+      arr.map((_, index) => {
+        const childNode = node.getChild(String(index));
+        return childNode ? readSnapshot(childNode) : arr[index];
+      }),
+    );
   }
 
   if (type._kind === "map") {
     const snapshot: Record<string, unknown> = {};
     const children = node.getChildren();
     for (const [key, childNode] of children) {
-      snapshot[key] = getSnapshotFromNode(childNode);
+      snapshot[key] = readSnapshot(childNode);
     }
-    return snapshot;
+    return Object.freeze(snapshot);
   }
 
-  if (type._kind === "reference") {
+  if (type._kind === "reference" || type._kind === "safeReference") {
     // Return the identifier, not the resolved value
     return node.identifierValue ?? value;
   }
@@ -494,6 +905,17 @@ export function applySnapshotToNode(node: StateTreeNode, snapshot: unknown) {
     throw new Error("[jotai-state-tree] Cannot apply snapshot to a dead node");
   }
 
+  // Snapshots applied to a node are located by the node's path
+  const previousPath = snapshotPath;
+  snapshotPath = splitJsonPath(node.$path);
+  try {
+    applySnapshotAtNodePath(node, snapshot);
+  } finally {
+    snapshotPath = previousPath;
+  }
+}
+
+function applySnapshotAtNodePath(node: StateTreeNode, snapshot: unknown) {
   const type = node.$type;
 
   // Apply pre processor if exists
@@ -514,31 +936,106 @@ export function applySnapshotToNode(node: StateTreeNode, snapshot: unknown) {
         applySnapshotToNode(childNode, snapshotObj[key]);
       }
     }
-  } else if (type._kind === "array" && Array.isArray(snapshot)) {
-    // For arrays, we need to reconcile
-    node.setValue(snapshot);
   } else if (
-    type._kind === "map" &&
-    typeof snapshot === "object" &&
-    snapshot !== null
+    (type._kind === "array" && Array.isArray(snapshot)) ||
+    (type._kind === "map" && typeof snapshot === "object" && snapshot !== null)
   ) {
-    // For maps, replace all entries
-    node.setValue(snapshot);
+    // Collections reconcile their children, keeping matching instances
+    if (node.reconcileSnapshot) {
+      node.reconcileSnapshot(snapshot);
+    } else {
+      node.setValue(snapshot);
+    }
   } else {
     // For primitives
     node.setValue(snapshot);
   }
 }
 
-/** Look up a node by identifier */
+/**
+ * Whether `value` (an instance or a snapshot) may be applied to `node` in place,
+ * keeping its instance: the same instance, an unchanged snapshot or a model
+ * snapshot with the same identifier
+ */
+export function canReconcileNode(node: StateTreeNode, value: unknown): boolean {
+  if (hasStateTreeNode(value)) {
+    return getStateTreeNode(value) === node;
+  }
+  if (getSnapshotFromNode(node) === value) {
+    return true;
+  }
+  const identifierAttribute = node.$type.identifierAttribute;
+  return (
+    node.$type._kind === "model" &&
+    identifierAttribute !== undefined &&
+    node.identifierValue !== undefined &&
+    typeof value === "object" &&
+    value !== null &&
+    String((value as Record<string, unknown>)[identifierAttribute]) ===
+      String(node.identifierValue) &&
+    node.$type.validate(value, []).valid
+  );
+}
+
+/**
+ * Look up a node by identifier. With a `target`, only the tree of the target is
+ * searched; otherwise the node registered last under that type name is returned.
+ */
 export function resolveIdentifier(
   typeName: string,
   identifier: string | number,
+  target?: unknown,
 ): StateTreeNode | undefined {
+  if (target !== undefined) {
+    return getStateTreeNode(target).findByIdentifier(typeName, identifier);
+  }
   const weakRef = identifierRegistry.get(typeName)?.get(identifier);
   return weakRef?.deref();
 }
 
+/** Resolvers for references whose target is not part of their own tree */
+const referenceResolvers = new Set<ReferenceResolver>();
+
+/**
+ * Register a resolver for cross-tree references. It is consulted when a
+ * reference can't be resolved within its own tree, and returns the target
+ * instance (or undefined).
+ */
+export function registerReferenceResolver(
+  resolver: ReferenceResolver,
+): IDisposer {
+  referenceResolvers.add(resolver);
+  return () => {
+    referenceResolvers.delete(resolver);
+  };
+}
+
+/**
+ * Resolve the target of a reference living at `from`: its own tree first, then
+ * the registered reference resolvers. References outside of any tree fall back
+ * to the identifier registered last.
+ */
+export function resolveReferenceTarget(
+  type: IAnyType,
+  identifier: string | number,
+  from: StateTreeNode | null,
+): StateTreeNode | undefined {
+  const local = from?.findByIdentifier(type, identifier);
+  if (local) {
+    return local;
+  }
+
+  const parent = from?.$parent?.getInstance();
+  for (const resolver of referenceResolvers) {
+    const target = resolver(identifier, type, parent);
+    if (hasStateTreeNode(target)) {
+      return getStateTreeNode(target);
+    }
+  }
+
+  return from?.$parent ? undefined : resolveIdentifier(type.name, identifier);
+}
+
 /** Get all nodes of a type */
 export function getNodesOfType(typeName: string): StateTreeNode[] {
   const typeMap = identifierRegistry.get(typeName);
@@ -712,8 +1209,7 @@ export function getPath(target: unknown): string {
 
 /** Get path parts as array */
 export function getPathParts(target: unknown): string[] {
-  const path = getPath(target);
-  return path ? path.split("/").filter(Boolean) : [];
+  return splitJsonPath(getPath(target));
 }
 
 /** Get the environment */
@@ -764,12 +1260,234 @@ export function detach<T>(target: T): T {
   return target;
 }
 
-/** Clone a node */
+/** Clone a node - the clone lives in the same store */
 export function clone<T>(target: T, keepEnvironment: boolean = true): T {
   const node = getStateTreeNode(target);
   const snapshot = getSnapshotFromNode(node);
   const type = node.$type;
-  return type.create(snapshot, keepEnvironment ? node.$env : undefined) as T;
+  return type.create(
+    snapshot,
+    keepEnvironment ? node.$env : undefined,
+    node.treeStore ? { store: node.treeStore } : undefined,
+  ) as T;
+}
+
+/** Get the Jotai store holding the values of a node's tree */
+export function getNodeStore(target: unknown): JotaiStore {
+  return getStateTreeNode(target).$store;
+}
+
+/** Object unique to each store reading it, telling stores apart inside atom reads */
+const storeKeyAtom = atom(() => ({}));
+
+const publicNodeAtoms = new WeakMap<Atom<unknown>, Atom<unknown>>();
+
+/**
+ * Wrap an atom of `node` so any store can read it: the tree's own store reads it
+ * directly, other stores read the tree's store and follow it while mounted.
+ */
+function getPublicNodeAtom<T>(node: StateTreeNode, inner: Atom<T>): Atom<T> {
+  let publicAtom = publicNodeAtoms.get(inner) as Atom<T> | undefined;
+  if (!publicAtom) {
+    const versionAtom = atom(0);
+    versionAtom.onMount = (setVersion) =>
+      node.$store.sub(inner, () => setVersion((version) => version + 1));
+    const read = (get: Getter) => {
+      if (get(storeKeyAtom) === node.$store.get(storeKeyAtom)) {
+        return get(inner);
+      }
+      get(versionAtom);
+      return node.$store.get(inner);
+    };
+    publicAtom =
+      "write" in inner
+        ? atom(read, (_get, set, value: unknown) =>
+            set(inner as WritableAtom<T, [unknown], void>, value),
+          )
+        : atom(read);
+    publicAtom.debugLabel = inner.debugLabel;
+    publicNodeAtoms.set(inner, publicAtom);
+  }
+  return publicAtom;
+}
+
+/**
+ * Get an atom for a model property, usable with `useAtom` and derived atoms in any
+ * store - e.g. the `<Provider>` store an `atomWithTree` tree was read in. Writes go
+ * through the instance like assignments, so they are protected, emit patches and
+ * notify listeners.
+ */
+export function getPropertyAtom<T extends object, K extends keyof T & string>(
+  target: T,
+  key: K,
+): WritableAtom<T[K], [T[K]], void> {
+  const node = getStateTreeNode(target);
+  const propertyAtom = node.propertyAtom?.(key);
+  if (!propertyAtom) {
+    throw new Error(
+      `[jotai-state-tree] '${key}' is not a property of '${node.$type.name}'`,
+    );
+  }
+  return getPublicNodeAtom(node, propertyAtom) as WritableAtom<
+    T[K],
+    [T[K]],
+    void
+  >;
+}
+
+/** Get the derived atom computing a getter view of a model instance, readable in any store */
+export function getViewAtom<T extends object, K extends keyof T & string>(
+  target: T,
+  key: K,
+): Atom<T[K]> {
+  const node = getStateTreeNode(target);
+  const viewAtom = node.viewAtom?.(key);
+  if (!viewAtom) {
+    throw new Error(
+      `[jotai-state-tree] '${key}' is not a computed view of '${node.$type.name}'`,
+    );
+  }
+  return getPublicNodeAtom(node, viewAtom) as Atom<T[K]>;
+}
+
+/**
+ * Create an atom holding a state tree, scoped to the Jotai store reading it.
+ * Each store (e.g. each `<Provider>`) gets its own tree, created on first read
+ * and destroyed once the atom is unmounted. Atom reads must not write to the
+ * store reading them, so each tree keeps its values in a store of its own -
+ * its property and view atoms still compose with atoms of the reading store.
+ *
+ * @example
+ * const todoStoreAtom = atomWithTree(TodoStore, { todos: [] });
+ * const todoStore = useAtomValue(todoStoreAtom);
+ */
+export function atomWithTree<C, S, T>(
+  type: IType<C, S, T>,
+  initialSnapshot?: C,
+  env?: unknown,
+): Atom<T> {
+  // A key object per reading store, mapped to the tree of that store
+  const storeKeyAtom = atom(() => ({}));
+  const trees = new WeakMap<object, T>();
+  // Bumped when a tree is destroyed, so the next read creates a new one
+  const generationAtom = atom(0);
+
+  const treeAtom = atom(
+    (get) => {
+      get(generationAtom);
+      const key = get(storeKeyAtom);
+      let tree = trees.get(key);
+      if (tree === undefined) {
+        tree = type.create(initialSnapshot, env, { store: createStore() });
+        trees.set(key, tree);
+      }
+      return tree;
+    },
+    (get, set, _action: "destroy") => {
+      const key = get(storeKeyAtom);
+      const tree = trees.get(key);
+      trees.delete(key);
+      if (hasStateTreeNode(tree) && getStateTreeNode(tree).$isAlive) {
+        destroy(tree);
+      }
+      set(generationAtom, (generation) => generation + 1);
+    },
+  );
+  treeAtom.onMount = (setAtom) => () => setAtom("destroy");
+  treeAtom.debugLabel = `atomWithTree(${type.name})`;
+  return treeAtom;
+}
+
+// ============================================================================
+// JSON Pointer (RFC 6901)
+// ============================================================================
+
+/**
+ * Escape a JSON pointer segment
+ */
+export function escapeJsonPath(path: string): string {
+  return path.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+/**
+ * Unescape a JSON pointer segment
+ */
+export function unescapeJsonPath(path: string): string {
+  return path.replace(/~1/g, "/").replace(/~0/g, "~");
+}
+
+/**
+ * Split a path into unescaped segments ("" is the root, a leading "/" is optional)
+ */
+export function splitJsonPath(path: string): string[] {
+  if (path === "") return [];
+  const parts = path.split("/");
+  if (parts[0] === "") parts.shift();
+  return parts.map(unescapeJsonPath);
+}
+
+/**
+ * Join path segments
+ */
+export function joinJsonPath(parts: string[]): string {
+  return parts.map(escapeJsonPath).join("/");
+}
+
+// ============================================================================
+// Standard Schema
+// ============================================================================
+
+/** Standard Schema interface of each type, created on first use */
+const standardSchemas = new WeakMap<IAnyType, StandardSchemaV1Props>();
+
+/**
+ * Standard Schema interface of a type - validates snapshots with the type's
+ * `validate`, reporting each error as an issue at the path of its value
+ */
+export function getStandardSchema<T extends IAnyType>(
+  type: T,
+): StandardSchemaV1Props<T["_C"]> {
+  let standard = standardSchemas.get(type);
+  if (!standard) {
+    standard = {
+      version: 1,
+      vendor: "jotai-state-tree",
+      validate(value) {
+        const result = type.validate(value, []);
+        if (result.valid) {
+          return { value };
+        }
+        return {
+          issues: result.errors.map((error) => ({
+            message: error.message,
+            path: getIssuePath(value, error),
+          })),
+        };
+      },
+    };
+    standardSchemas.set(type, standard);
+  }
+  return standard as StandardSchemaV1Props<T["_C"]>;
+}
+
+/** Path segments of a validation error's value, array indices are numbers */
+function getIssuePath(
+  root: unknown,
+  error: IValidationError,
+): PropertyKey[] | undefined {
+  const context = error.context[error.context.length - 1];
+  if (!context?.path) return undefined;
+  let current = root;
+  return splitJsonPath(context.path).map((segment) => {
+    const key = Array.isArray(current) ? Number(segment) : segment;
+    current =
+      current instanceof Map
+        ? current.get(key)
+        : current && typeof current === "object"
+          ? (current as Record<PropertyKey, unknown>)[key]
+          : undefined;
+    return key;
+  });
 }
 
 // ============================================================================
@@ -806,7 +1524,12 @@ export function onPatch(
   return node.onPatch(listener);
 }
 
-/** Apply a single patch */
+/**
+ * Apply a single patch or a list of patches (RFC 6902).
+ * Paths are JSON pointers relative to the root. The list is applied in a
+ * transaction, so a failing `test` op, an invalid path or an invalid value
+ * leaves the tree untouched.
+ */
 export function applyPatch(
   target: unknown,
   patch: IJsonPatch | IJsonPatch[],
@@ -814,63 +1537,367 @@ export function applyPatch(
   const patches = Array.isArray(patch) ? patch : [patch];
   const rootNode = getStateTreeNode(target).getRoot();
 
-  for (const p of patches) {
-    applyPatchToNode(rootNode, p);
+  // Dry run against the (structurally shared) snapshot
+  patches.reduce<unknown>(
+    (doc, p) => applyPatchToValue(doc, p),
+    getSnapshotFromNode(rootNode),
+  );
+
+  // Patches are applied as a whole, like an action - and rolled back if a
+  // node rejects one of them
+  transaction(rootNode.getInstance(), () =>
+    runWithoutProtection(() => {
+      for (const p of patches) {
+        applyPatchToNode(rootNode, p);
+      }
+    }),
+  );
+}
+
+function invalidPatchPath(path: string | undefined): Error {
+  return new Error(`[jotai-state-tree] Invalid patch path: ${path}`);
+}
+
+function getPatchFrom(patch: IJsonPatch): string[] {
+  if (patch.from === undefined) {
+    throw new Error(
+      `[jotai-state-tree] Patch operation '${patch.op}' requires a 'from' path`,
+    );
+  }
+  if (patch.op === "move" && patch.path.startsWith(`${patch.from}/`)) {
+    throw new Error(
+      `[jotai-state-tree] Cannot move '${patch.from}' into one of its own children ('${patch.path}')`,
+    );
   }
+  return splitJsonPath(patch.from);
 }
 
-function applyPatchToNode(rootNode: StateTreeNode, patch: IJsonPatch): void {
-  const pathParts = patch.path.split("/").filter(Boolean);
-  let node = rootNode;
+function parseArrayIndex(key: string, max: number, path: string): number {
+  const index = /^(0|[1-9]\d*)$/.test(key) ? Number(key) : NaN;
+  if (!(index <= max)) {
+    throw invalidPatchPath(path);
+  }
+  return index;
+}
 
-  // Navigate to the target node
-  for (let i = 0; i < pathParts.length - 1; i++) {
-    const childNode = node.getChild(pathParts[i]);
-    if (!childNode) {
-      throw new Error(`[jotai-state-tree] Invalid patch path: ${patch.path}`);
-    }
-    node = childNode;
+function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (
+    typeof a !== "object" ||
+    typeof b !== "object" ||
+    a === null ||
+    b === null ||
+    Array.isArray(a) !== Array.isArray(b)
+  ) {
+    return false;
+  }
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every(
+      (key) =>
+        Object.prototype.hasOwnProperty.call(b, key) &&
+        isDeepEqual(
+          (a as Record<string, unknown>)[key],
+          (b as Record<string, unknown>)[key],
+        ),
+    )
+  );
+}
+
+// Plain JSON values (dry runs and paths inside frozen values), updated copy-on-write
+
+function getPlainChild(container: unknown, key: string, path: string): unknown {
+  if (Array.isArray(container)) {
+    return container[parseArrayIndex(key, container.length - 1, path)];
+  }
+  if (
+    container !== null &&
+    typeof container === "object" &&
+    Object.prototype.hasOwnProperty.call(container, key)
+  ) {
+    return (container as Record<string, unknown>)[key];
+  }
+  throw invalidPatchPath(path);
+}
+
+function getPlainValue(doc: unknown, parts: string[], path: string): unknown {
+  return parts.reduce((value, key) => getPlainChild(value, key, path), doc);
+}
+
+function updatePlainValue(
+  doc: unknown,
+  parts: string[],
+  path: string,
+  update: (container: unknown, key: string) => unknown,
+): unknown {
+  const [key, ...rest] = parts;
+  if (rest.length === 0) {
+    return update(doc, key);
   }
+  const updated = updatePlainValue(
+    getPlainChild(doc, key, path),
+    rest,
+    path,
+    update,
+  );
+  if (Array.isArray(doc)) {
+    const copy = doc.slice();
+    copy[Number(key)] = updated;
+    return copy;
+  }
+  return { ...(doc as Record<string, unknown>), [key]: updated };
+}
+
+function addPlainValue(
+  doc: unknown,
+  parts: string[],
+  path: string,
+  value: unknown,
+): unknown {
+  if (parts.length === 0) return value;
+  return updatePlainValue(doc, parts, path, (container, key) => {
+    if (Array.isArray(container)) {
+      const index =
+        key === "-"
+          ? container.length
+          : parseArrayIndex(key, container.length, path);
+      const copy = container.slice();
+      copy.splice(index, 0, value);
+      return copy;
+    }
+    if (container !== null && typeof container === "object") {
+      return { ...container, [key]: value };
+    }
+    throw invalidPatchPath(path);
+  });
+}
+
+function replacePlainValue(
+  doc: unknown,
+  parts: string[],
+  path: string,
+  value: unknown,
+): unknown {
+  if (parts.length === 0) return value;
+  return updatePlainValue(doc, parts, path, (container, key) => {
+    getPlainChild(container, key, path);
+    if (Array.isArray(container)) {
+      const copy = container.slice();
+      copy[Number(key)] = value;
+      return copy;
+    }
+    return { ...(container as Record<string, unknown>), [key]: value };
+  });
+}
+
+function removePlainValue(
+  doc: unknown,
+  parts: string[],
+  path: string,
+): unknown {
+  if (parts.length === 0) throw invalidPatchPath(path);
+  return updatePlainValue(doc, parts, path, (container, key) => {
+    getPlainChild(container, key, path);
+    if (Array.isArray(container)) {
+      const copy = container.slice();
+      copy.splice(Number(key), 1);
+      return copy;
+    }
+    const copy = { ...(container as Record<string, unknown>) };
+    delete copy[key];
+    return copy;
+  });
+}
 
-  const key = pathParts[pathParts.length - 1];
+/** Apply a patch to a plain JSON value, returning the new value */
+function applyPatchToValue(doc: unknown, patch: IJsonPatch): unknown {
+  const parts = splitJsonPath(patch.path);
 
   switch (patch.op) {
-    case "replace": {
-      const childNode = node.getChild(key);
-      if (childNode) {
-        applySnapshotToNode(childNode, patch.value);
-      } else {
-        // Direct value set for primitives
-        const currentValue = node.getValue() as Record<string, unknown>;
-        currentValue[key] = patch.value;
-        node.setValue(currentValue);
+    case "add":
+      return addPlainValue(doc, parts, patch.path, patch.value);
+    case "remove":
+      return removePlainValue(doc, parts, patch.path);
+    case "replace":
+      return replacePlainValue(doc, parts, patch.path, patch.value);
+    case "move": {
+      const from = getPatchFrom(patch);
+      const value = getPlainValue(doc, from, patch.from!);
+      const removed = removePlainValue(doc, from, patch.from!);
+      return addPlainValue(removed, parts, patch.path, value);
+    }
+    case "copy": {
+      const value = getPlainValue(doc, getPatchFrom(patch), patch.from!);
+      return addPlainValue(doc, parts, patch.path, value);
+    }
+    case "test":
+      if (!isDeepEqual(getPlainValue(doc, parts, patch.path), patch.value)) {
+        throw new Error(
+          `[jotai-state-tree] Patch test failed at '${patch.path}'`,
+        );
+      }
+      return doc;
+    default:
+      throw new Error(
+        `[jotai-state-tree] Unsupported patch operation '${(patch as IJsonPatch).op}'`,
+      );
+  }
+}
+
+// Tree nodes
+
+function isContainerNode(node: StateTreeNode): boolean {
+  const kind = node.$type._kind;
+  return kind === "model" || kind === "array" || kind === "map";
+}
+
+/** Resolve a pointer to a node; `rest` holds the segments inside a frozen/primitive value */
+function resolvePatchNode(
+  rootNode: StateTreeNode,
+  parts: string[],
+  path: string,
+): { node: StateTreeNode; rest: string[] } {
+  let node = rootNode;
+  for (let i = 0; i < parts.length; i++) {
+    if (!isContainerNode(node)) {
+      return { node, rest: parts.slice(i) };
+    }
+    const child = node.getChild(parts[i]);
+    if (!child) {
+      throw invalidPatchPath(path);
+    }
+    node = child;
+  }
+  return { node, rest: [] };
+}
+
+function getPatchValue(
+  rootNode: StateTreeNode,
+  parts: string[],
+  path: string,
+): unknown {
+  const { node, rest } = resolvePatchNode(rootNode, parts, path);
+  return rest.length > 0
+    ? getPlainValue(node.getValue(), rest, path)
+    : getSnapshotFromNode(node);
+}
+
+/** Add, replace or remove (value === undefined with op "remove") the value at a pointer */
+function writePatchValue(
+  rootNode: StateTreeNode,
+  op: "add" | "replace" | "remove",
+  parts: string[],
+  path: string,
+  value?: unknown,
+): void {
+  if (parts.length === 0) {
+    applySnapshotToNode(rootNode, value);
+    return;
+  }
+
+  const key = parts[parts.length - 1];
+  const { node, rest } = resolvePatchNode(rootNode, parts.slice(0, -1), path);
+
+  if (rest.length > 0 || !isContainerNode(node)) {
+    // Inside a frozen value - update it copy-on-write
+    const valueParts = [...rest, key];
+    const current = node.getValue();
+    node.setValue(
+      op === "add"
+        ? addPlainValue(current, valueParts, path, value)
+        : op === "replace"
+          ? replacePlainValue(current, valueParts, path, value)
+          : removePlainValue(current, valueParts, path),
+    );
+    return;
+  }
+
+  const instance = node.getInstance();
+  const existing = node.getChild(key);
+
+  switch (node.$type._kind) {
+    case "model": {
+      if (!existing) {
+        throw invalidPatchPath(path);
       }
+      // Assign through the instance so wrapper types are recreated properly
+      (instance as Record<string, unknown>)[key] =
+        op === "remove" ? undefined : value;
       break;
     }
-    case "add": {
-      const currentValue = node.getValue();
-      if (Array.isArray(currentValue)) {
-        const index = key === "-" ? currentValue.length : parseInt(key, 10);
-        currentValue.splice(index, 0, patch.value);
-        node.setValue([...currentValue]);
-      } else if (typeof currentValue === "object" && currentValue !== null) {
-        (currentValue as Record<string, unknown>)[key] = patch.value;
-        node.setValue({ ...currentValue });
+    case "array": {
+      const items = instance as unknown[];
+      if (op === "add") {
+        const index =
+          key === "-" ? items.length : parseArrayIndex(key, items.length, path);
+        items.splice(index, 0, value);
+      } else {
+        const index = parseArrayIndex(key, items.length - 1, path);
+        if (op === "remove") {
+          items.splice(index, 1);
+        } else if (
+          existing?.$type._kind === "model" &&
+          typeof value === "object" &&
+          value !== null
+        ) {
+          // Keep the instance, only update its state
+          applySnapshotToNode(existing, value);
+        } else {
+          items.splice(index, 1, value);
+        }
       }
       break;
     }
-    case "remove": {
-      const currentValue = node.getValue();
-      if (Array.isArray(currentValue)) {
-        const index = parseInt(key, 10);
-        currentValue.splice(index, 1);
-        node.setValue([...currentValue]);
-      } else if (typeof currentValue === "object" && currentValue !== null) {
-        delete (currentValue as Record<string, unknown>)[key];
-        node.setValue({ ...currentValue });
+    case "map": {
+      const map = instance as Map<string, unknown>;
+      if (op !== "add" && !existing) {
+        throw invalidPatchPath(path);
       }
+      if (op === "remove") {
+        map.delete(key);
+      } else if (
+        op === "replace" &&
+        existing?.$type._kind === "model" &&
+        typeof value === "object" &&
+        value !== null
+      ) {
+        applySnapshotToNode(existing, value);
+      } else {
+        map.set(key, value);
+      }
+      break;
+    }
+  }
+}
+
+function applyPatchToNode(rootNode: StateTreeNode, patch: IJsonPatch): void {
+  const parts = splitJsonPath(patch.path);
+
+  switch (patch.op) {
+    case "add":
+    case "replace":
+      writePatchValue(rootNode, patch.op, parts, patch.path, patch.value);
+      break;
+    case "remove":
+      writePatchValue(rootNode, "remove", parts, patch.path);
+      break;
+    case "move": {
+      const from = getPatchFrom(patch);
+      const value = getPatchValue(rootNode, from, patch.from!);
+      writePatchValue(rootNode, "remove", from, patch.from!);
+      writePatchValue(rootNode, "add", parts, patch.path, value);
+      break;
+    }
+    case "copy": {
+      const value = getPatchValue(rootNode, getPatchFrom(patch), patch.from!);
+      writePatchValue(rootNode, "add", parts, patch.path, value);
       break;
     }
+    case "test":
+      // Already checked by the dry run
+      break;
   }
 }
 
@@ -948,6 +1975,180 @@ export interface ActionCall {
   name: string;
   path: string;
   args: unknown[];
+  /** Kind of invocation - "action" for plain actions, flow_* for flow steps */
+  type?: IMiddlewareEvent["type"];
+}
+
+/** Extra details for invocations that are not plain action calls (e.g. flow steps) */
+export interface ActionCallOptions {
+  /** Middleware event type, defaults to "action" */
+  type?: IMiddlewareEvent["type"];
+  /** Explicit middleware event id, shared by all steps of a flow */
+  id?: number;
+  /** Middleware event of the action that spawned a flow */
+  parentEvent?: IMiddlewareEvent;
+}
+
+/** Runs an action through the middleware chain (receives the possibly rewritten args) */
+type ActionMiddlewareHook = (
+  node: StateTreeNode,
+  call: ActionCall,
+  fn: (args: unknown[]) => unknown,
+  options: ActionCallOptions,
+) => unknown;
+
+/** Action middleware hook - set by lifecycle.ts to avoid circular imports */
+let actionMiddlewareHook: ActionMiddlewareHook | null = null;
+
+/** Register the action middleware hook (called by lifecycle.ts) */
+export function registerActionMiddlewareHook(
+  hook: ActionMiddlewareHook,
+): () => void {
+  actionMiddlewareHook = hook;
+  return () => {
+    if (actionMiddlewareHook === hook) {
+      actionMiddlewareHook = null;
+    }
+  };
+}
+
+/** Write guard hook - set by lifecycle.ts to avoid circular imports */
+let writeGuardHook: ((node: StateTreeNode, property: string) => void) | null =
+  null;
+
+/** Register the write guard hook (called by lifecycle.ts) */
+export function registerWriteGuardHook(
+  hook: (node: StateTreeNode, property: string) => void,
+): () => void {
+  writeGuardHook = hook;
+  return () => {
+    if (writeGuardHook === hook) {
+      writeGuardHook = null;
+    }
+  };
+}
+
+/** Depth of internal operations that may write to protected trees */
+let protectionSuspended = 0;
+
+/** Run internal writes (lifecycle hooks etc.) that are allowed on protected trees */
+export function runWithoutProtection<T>(fn: () => T): T {
+  protectionSuspended++;
+  try {
+    return fn();
+  } finally {
+    protectionSuspended--;
+  }
+}
+
+/** Throw if `property` of `node` may not be written right now (protected tree, no running action) */
+export function assertWritable(node: StateTreeNode, property: string): void {
+  if (writeGuardHook && protectionSuspended === 0) {
+    writeGuardHook(node, property);
+  }
+}
+
+// ============================================================================
+// Notification Batching & Transactions
+// ============================================================================
+
+/**
+ * Changed nodes whose snapshot listeners wait for the outermost action,
+ * `runInAction` or transaction to end. `null` when nothing is deferred.
+ */
+let pendingSnapshotNodes: Set<StateTreeNode> | null = null;
+
+/** Lifecycle notifications waiting for the outermost action to end */
+let pendingLifecycleChanges: Array<[StateTreeNode, boolean]> = [];
+
+function isInSubtree(root: StateTreeNode, node: StateTreeNode): boolean {
+  for (let n: StateTreeNode | null = node; n; n = n.$parent) {
+    if (n === root) return true;
+  }
+  return false;
+}
+
+/** Notify each changed node and its ancestors once, deepest first */
+function flushSnapshotNotifications(changed: Set<StateTreeNode>) {
+  const nodes = new Set<StateTreeNode>();
+  for (const node of changed) {
+    for (let n: StateTreeNode | null = node; n && !nodes.has(n); n = n.$parent) {
+      nodes.add(n);
+    }
+  }
+  nodes.forEach((node) => node.emitSnapshot());
+
+  const lifecycleChanges = pendingLifecycleChanges;
+  pendingLifecycleChanges = [];
+  for (const [node, isAlive] of lifecycleChanges) {
+    notifyLifecycleChange(node, isAlive);
+  }
+}
+
+/**
+ * Run `fn`, holding back snapshot and lifecycle notifications until the
+ * outermost deferred call is done. Patches are still emitted as they happen.
+ */
+export function deferNotifications<T>(fn: () => T): T {
+  if (pendingSnapshotNodes) {
+    return fn();
+  }
+  const pending = new Set<StateTreeNode>();
+  pendingSnapshotNodes = pending;
+  try {
+    return fn();
+  } finally {
+    pendingSnapshotNodes = null;
+    flushSnapshotNotifications(pending);
+  }
+}
+
+/**
+ * Run `fn` like an anonymous action: it may modify protected trees and
+ * listeners are notified once, after `fn` returns
+ */
+export function runInAction<T>(fn: () => T): T {
+  return deferNotifications(() => runWithoutProtection(fn));
+}
+
+/**
+ * Run `fn` as one unit. Snapshot listeners are notified once when the outermost
+ * transaction ends. If `fn` throws, the changes it made to `target` are reverted
+ * by applying the inverse patches, and the error is rethrown.
+ */
+export function transaction<T>(target: unknown, fn: () => T): T {
+  const node = getStateTreeNode(target);
+  const reversePatches: IReversibleJsonPatch[] = [];
+  const dispose = node.onPatch((_, reversePatch) => {
+    reversePatches.push(reversePatch);
+  });
+
+  const outer = pendingSnapshotNodes;
+  const pending = new Set(outer);
+  pendingSnapshotNodes = pending;
+
+  try {
+    return fn();
+  } catch (error) {
+    dispose();
+    applyPatch(node.getRoot().getInstance(), reversePatches.reverse());
+    // Reverted nodes have nothing new to report
+    for (const changed of pending) {
+      if (!outer?.has(changed) && isInSubtree(node, changed)) {
+        pending.delete(changed);
+      }
+    }
+    throw error;
+  } finally {
+    dispose();
+    if (outer) {
+      pending.forEach((changed) => outer.add(changed));
+      pendingSnapshotNodes = outer;
+    } else {
+      pendingSnapshotNodes = null;
+      flushSnapshotNotifications(pending);
+    }
+  }
 }
 
 /** Track an action call */
@@ -955,26 +2156,48 @@ export function trackAction<T>(
   node: StateTreeNode,
   name: string,
   args: unknown[],
-  fn: () => T,
+  fn: (args: unknown[]) => T,
+  options: ActionCallOptions = {},
 ): T {
+  // Listeners hear about the changes once the outermost action is done
+  if (!pendingSnapshotNodes) {
+    return deferNotifications(() => trackAction(node, name, args, fn, options));
+  }
+
   const previousAction = currentAction;
   currentAction = { name, args, tree: node };
+  const type = options.type ?? "action";
 
   try {
-    const result = fn();
-
-    // Notify action listeners
-    const call: ActionCall = {
-      name,
-      path: node.$path,
-      args,
+    const invoke = (callArgs: unknown[]): T => {
+      const result = fn(callArgs);
+
+      // Notify action listeners
+      const call: ActionCall = {
+        name,
+        path: node.$path,
+        args: callArgs,
+        type,
+      };
+      actionListeners.forEach((listener) => listener(call));
+
+      // Notify action recorder hooks (registered by lifecycle.ts)
+      actionRecorderHooks.forEach((hook) => hook(node, call));
+
+      return result;
     };
-    actionListeners.forEach((listener) => listener(call));
 
-    // Notify action recorder hooks (registered by lifecycle.ts)
-    actionRecorderHooks.forEach((hook) => hook(node, call));
+    // Route through middleware (registered by lifecycle.ts) when available
+    if (actionMiddlewareHook) {
+      return actionMiddlewareHook(
+        node,
+        { name, path: node.$path, args, type },
+        invoke as (args: unknown[]) => unknown,
+        options,
+      ) as T;
+    }
 
-    return result;
+    return invoke(args);
   } finally {
     currentAction = previousAction;
   }
@@ -1047,7 +2270,7 @@ export function getMembers(target: unknown): {
 
 /** Resolve a path to a node */
 export function resolvePath(target: unknown, path: string): unknown {
-  const parts = path.split("/").filter(Boolean);
+  const parts = splitJsonPath(path);
   let node = getStateTreeNode(target);
 
   for (const part of parts) {
@@ -1075,8 +2298,8 @@ export function getRelativePath(from: unknown, to: unknown): string {
   const fromNode = getStateTreeNode(from);
   const toNode = getStateTreeNode(to);
 
-  const fromParts = fromNode.$path.split("/").filter(Boolean);
-  const toParts = toNode.$path.split("/").filter(Boolean);
+  const fromParts = splitJsonPath(fromNode.$path);
+  const toParts = splitJsonPath(toNode.$path);
 
   // Find common ancestor
   let commonLength = 0;
@@ -1098,7 +2321,7 @@ export function getRelativePath(from: unknown, to: unknown): string {
   }
   parts.push(...downParts);
 
-  return parts.join("/") || ".";
+  return joinJsonPath(parts) || ".";
 }
 
 /** Check if a node is an ancestor of another */
@@ -1164,7 +2387,7 @@ export function isValidReference(
   const typeName = node.$type.name;
 
   try {
-    const resolved = resolveIdentifier(typeName, identifier);
+    const resolved = resolveIdentifier(typeName, identifier, target);
     return resolved !== undefined;
   } catch {
     return false;
@@ -1187,7 +2410,7 @@ export function getTreeStats(target: unknown): {
     const stateNode = getStateTreeNode(node);
     nodeCount++;
 
-    const depth = stateNode.$path.split("/").filter(Boolean).length;
+    const depth = splitJsonPath(stateNode.$path).length;
     maxDepth = Math.max(maxDepth, depth);
 
     const typeName = stateNode.$type.name;
@@ -1214,7 +2437,7 @@ export function getOrCreatePath(
   path: string,
   creator: () => unknown,
 ): unknown {
-  const parts = path.split("/").filter(Boolean);
+  const parts = splitJsonPath(path);
   let node = getStateTreeNode(target);
 
   for (let i = 0; i < parts.length; i++) {
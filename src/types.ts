@@ -3,6 +3,8 @@
  * These types mirror the MobX-State-Tree API
  */
 
+import type { createStore } from "jotai";
+
 // ============================================================================
 // Snapshot Types
 // ============================================================================
@@ -43,6 +45,17 @@ export type Instance<T> = T extends IType<any, any, infer O> ? O : never;
 // Base Type Interface
 // ============================================================================
 
+/** A Jotai store holding node values */
+export type JotaiStore = ReturnType<typeof createStore>;
+
+export interface ICreateOptions {
+  /**
+   * Jotai store holding the values of the new tree, inherited by all its
+   * nodes. Used by model, array and map types; defaults to the global store.
+   */
+  store?: JotaiStore;
+}
+
 export interface IType<C, S, T> {
   /** Name of this type */
   readonly name: string;
@@ -51,7 +64,7 @@ export interface IType<C, S, T> {
   readonly identifierAttribute?: string;
 
   /** Create an instance of this type */
-  create(snapshot?: C, env?: unknown): T;
+  create(snapshot?: C, env?: unknown, options?: ICreateOptions): T;
 
   /** Check if a value is an instance of this type */
   is(value: unknown): value is T;
@@ -59,6 +72,9 @@ export interface IType<C, S, T> {
   /** Validate a value against this type */
   validate(value: unknown, context: IValidationContext[]): IValidationResult;
 
+  /** Standard Schema interface, validating snapshots of this type */
+  readonly "~standard": StandardSchemaV1Props<C, C>;
+
   /** Type discriminator */
   readonly _kind: string;
 
@@ -85,6 +101,45 @@ export interface IValidationError {
   message: string;
 }
 
+// ============================================================================
+// Standard Schema (https://standardschema.dev)
+// ============================================================================
+
+/** A validator implementing the Standard Schema interface (v1) */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": StandardSchemaV1Props<Input, Output>;
+}
+
+export interface StandardSchemaV1Props<Input = unknown, Output = Input> {
+  readonly version: 1;
+  readonly vendor: string;
+  readonly validate: (
+    value: unknown,
+  ) => StandardSchemaV1Result<Output> | Promise<StandardSchemaV1Result<Output>>;
+  readonly types?: { readonly input: Input; readonly output: Output };
+}
+
+export type StandardSchemaV1Result<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaV1Issue> };
+
+export interface StandardSchemaV1Issue {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | StandardSchemaV1PathSegment>;
+}
+
+export interface StandardSchemaV1PathSegment {
+  readonly key: PropertyKey;
+}
+
+/** Input type of a Standard Schema */
+export type StandardSchemaV1Input<Schema extends StandardSchemaV1> =
+  NonNullable<Schema["~standard"]["types"]>["input"];
+
+/** Output type of a Standard Schema */
+export type StandardSchemaV1Output<Schema extends StandardSchemaV1> =
+  NonNullable<Schema["~standard"]["types"]>["output"];
+
 // ============================================================================
 // Simple/Primitive Types
 // ============================================================================
@@ -99,13 +154,18 @@ export interface ISimpleType<T> extends IType<T, T, T> {
 
 export type ModelProperties = Record<string, IType<unknown, unknown, unknown>>;
 
+/** Version stamped into snapshots of versioned models, see `.version()` */
+export interface IVersionedSnapshot {
+  $version?: number;
+}
+
 export type ModelCreationType<P extends ModelProperties> = {
   [K in keyof P]?: P[K] extends IType<infer C, unknown, unknown> ? C : never;
-};
+} & IVersionedSnapshot;
 
 export type ModelSnapshotType<P extends ModelProperties> = {
   [K in keyof P]: P[K] extends IType<unknown, infer S, unknown> ? S : never;
-};
+} & IVersionedSnapshot;
 
 export type ModelInstanceType<P extends ModelProperties> = {
   [K in keyof P]: P[K] extends IType<unknown, unknown, infer T> ? T : never;
@@ -135,6 +195,33 @@ export type ModelViews<Self, V> = (self: Self) => V;
 export type ModelActions<Self, A> = (self: Self) => A;
 export type ModelVolatile<Self, Vol> = (self: Self) => Vol;
 
+export interface IViewsOptions {
+  /**
+   * Keep computed views subscribed for the lifetime of the instance, so they are
+   * recomputed as soon as a dependency changes rather than on the next read
+   */
+  keepAlive?: boolean;
+  /** Keep the previous value of a computed view when the new one equals it */
+  equals?: (previous: unknown, next: unknown) => boolean;
+}
+
+export interface IMemoOptions {
+  /** Maximum number of argument tuples cached per instance (defaults to 100) */
+  maxSize?: number;
+}
+
+/**
+ * Snapshot migrations of a versioned model - `migrations[n]` turns a version `n`
+ * snapshot into a version `n + 1` snapshot
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type ISnapshotMigrations = Record<number, (snapshot: any) => unknown>;
+
+export interface IActionsOptions {
+  /** Run each action as a transaction - a throwing action leaves no changes behind */
+  transaction?: boolean;
+}
+
 export interface IModelType<
   P extends ModelProperties,
   V extends object,
@@ -159,11 +246,13 @@ export interface IModelType<
   /** Add computed views to the model */
   views<V2 extends object>(
     fn: ModelViews<ModelInstance<P, V, A, Vol> & V & A & Vol, V2>,
+    options?: IViewsOptions,
   ): IModelType<P, V & V2, A, Vol>;
 
   /** Add actions to the model */
   actions<A2 extends object>(
     fn: ModelActions<ModelInstance<P, V, A, Vol> & V & A & Vol, A2>,
+    options?: IActionsOptions,
   ): IModelType<P, V, A & A2, Vol>;
 
   /** Add volatile (non-serialized) state */
@@ -181,6 +270,12 @@ export interface IModelType<
     fn: (snapshot: ModelSnapshotType<P>) => NewS,
   ): IModelType<P, V, A, Vol>;
 
+  /** Version stamped into snapshots as `$version`, older snapshots are migrated */
+  version(version: number): IModelType<P, V, A, Vol>;
+
+  /** Migrations from older snapshot versions, keyed by the version they migrate from */
+  migrations(migrations: ISnapshotMigrations): IModelType<P, V, A, Vol>;
+
   /** Extend the model with views, actions, and state in one call */
   extend<
     V2 extends object = object,
@@ -372,6 +467,16 @@ export interface IReferenceType<T extends IAnyModelType>
   readonly _targetType: T;
 }
 
+/**
+ * Resolves references to nodes outside of the reference's own tree.
+ * Receives the identifier, the target type and the instance holding the reference.
+ */
+export type ReferenceResolver = (
+  identifier: string | number,
+  type: IAnyType,
+  parent: unknown,
+) => unknown;
+
 export interface ReferenceOptions<T extends IAnyModelType> {
   get?(identifier: string | number, parent: unknown): Instance<T> | undefined;
   set?(value: Instance<T>, parent: unknown): string | number;
@@ -500,9 +605,11 @@ export interface IIdentifierNumberType extends IType<number, number, number> {
 // ============================================================================
 
 export interface IJsonPatch {
-  op: "replace" | "add" | "remove";
+  op: "replace" | "add" | "remove" | "move" | "copy" | "test";
   path: string;
   value?: unknown;
+  /** Source path for "move" and "copy" */
+  from?: string;
 }
 
 export interface IReversibleJsonPatch extends IJsonPatch {
@@ -4,7 +4,7 @@
  */
 
 import type { IDisposer, IJsonPatch, IReversibleJsonPatch } from './types';
-import { getStateTreeNode, applyPatch, onPatch, getSnapshot, applySnapshot } from './tree';
+import { getStateTreeNode, applyPatch, onPatch, getSnapshot, applySnapshot, splitJsonPath } from './tree';
 
 // ============================================================================
 // Types
@@ -443,6 +443,8 @@ export interface IActionRecording {
   path: string;
   /** Arguments passed to the action */
   args: unknown[];
+  /** Kind of invocation; flow steps are recorded but not replayed */
+  type?: string;
   /** Timestamp */
   timestamp: number;
 }
@@ -516,10 +518,15 @@ class ActionRecorder implements IActionRecorder {
     const node = getStateTreeNode(target);
     
     for (const action of this.recordedActions) {
+      // Flow steps are re-created by replaying the flow action itself
+      if (action.type !== undefined && action.type !== 'action') {
+        continue;
+      }
+
       // Navigate to the correct node
       let currentNode = node;
       if (action.path) {
-        const parts = action.path.split('/').filter(Boolean);
+        const parts = splitJsonPath(action.path);
         for (const part of parts) {
           const child = currentNode.getChild(part);
           if (!child) {
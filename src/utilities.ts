@@ -20,8 +20,10 @@ import type {
   IAnyType,
   IAnyModelType,
   Instance,
+  ICreateOptions,
+  StandardSchemaV1Props,
 } from './types';
-import { resolveIdentifier, getStateTreeNode, StateTreeNode, $treenode } from './tree';
+import { resolveReferenceTarget, getStateTreeNode, StateTreeNode, $treenode, assertAlive, getStandardSchema } from './tree';
 
 // ============================================================================
 // Optional Type
@@ -39,6 +41,10 @@ class OptionalType<T extends IAnyType, Default>
   readonly _S!: T extends IType<unknown, infer S, unknown> ? S : never;
   readonly _T!: T extends IType<unknown, unknown, infer I> ? I : never;
 
+  get '~standard'(): StandardSchemaV1Props<this['_C']> {
+    return getStandardSchema(this);
+  }
+
   constructor(subType: T, defaultValue: Default | (() => Default)) {
     this._subType = subType;
     this._defaultValue = defaultValue;
@@ -47,16 +53,17 @@ class OptionalType<T extends IAnyType, Default>
 
   create(
     snapshot?: (T extends IType<infer C, unknown, unknown> ? C : never) | undefined,
-    env?: unknown
+    env?: unknown,
+    options?: ICreateOptions
   ): T extends IType<unknown, unknown, infer I> ? I : never {
     if (snapshot === undefined) {
       const defaultVal =
         typeof this._defaultValue === 'function'
           ? (this._defaultValue as () => Default)()
           : this._defaultValue;
-      return this._subType.create(defaultVal as unknown, env) as T extends IType<unknown, unknown, infer I> ? I : never;
+      return this._subType.create(defaultVal as unknown, env, options) as T extends IType<unknown, unknown, infer I> ? I : never;
     }
-    return this._subType.create(snapshot, env) as T extends IType<unknown, unknown, infer I> ? I : never;
+    return this._subType.create(snapshot, env, options) as T extends IType<unknown, unknown, infer I> ? I : never;
   }
 
   is(value: unknown): value is T extends IType<unknown, unknown, infer I> ? I : never {
@@ -91,6 +98,10 @@ class MaybeType<T extends IAnyType> implements IMaybeType<T> {
   readonly _S!: (T extends IType<unknown, infer S, unknown> ? S : never) | undefined;
   readonly _T!: (T extends IType<unknown, unknown, infer I> ? I : never) | undefined;
 
+  get '~standard'(): StandardSchemaV1Props<this['_C']> {
+    return getStandardSchema(this);
+  }
+
   constructor(subType: T) {
     this._subType = subType;
     this.name = `maybe<${subType.name}>`;
@@ -98,12 +109,13 @@ class MaybeType<T extends IAnyType> implements IMaybeType<T> {
 
   create(
     snapshot?: (T extends IType<infer C, unknown, unknown> ? C : never) | undefined,
-    env?: unknown
+    env?: unknown,
+    options?: ICreateOptions
   ): (T extends IType<unknown, unknown, infer I> ? I : never) | undefined {
     if (snapshot === undefined) {
       return undefined;
     }
-    return this._subType.create(snapshot, env) as (T extends IType<unknown, unknown, infer I> ? I : never) | undefined;
+    return this._subType.create(snapshot, env, options) as (T extends IType<unknown, unknown, infer I> ? I : never) | undefined;
   }
 
   is(value: unknown): value is (T extends IType<unknown, unknown, infer I> ? I : never) | undefined {
@@ -135,6 +147,10 @@ class MaybeNullType<T extends IAnyType> implements IMaybeNullType<T> {
   readonly _S!: (T extends IType<unknown, infer S, unknown> ? S : never) | null;
   readonly _T!: (T extends IType<unknown, unknown, infer I> ? I : never) | null;
 
+  get '~standard'(): StandardSchemaV1Props<this['_C']> {
+    return getStandardSchema(this);
+  }
+
   constructor(subType: T) {
     this._subType = subType;
     this.name = `maybeNull<${subType.name}>`;
@@ -142,12 +158,13 @@ class MaybeNullType<T extends IAnyType> implements IMaybeNullType<T> {
 
   create(
     snapshot?: (T extends IType<infer C, unknown, unknown> ? C : never) | null,
-    env?: unknown
+    env?: unknown,
+    options?: ICreateOptions
   ): (T extends IType<unknown, unknown, infer I> ? I : never) | null {
     if (snapshot === null || snapshot === undefined) {
       return null;
     }
-    return this._subType.create(snapshot, env) as (T extends IType<unknown, unknown, infer I> ? I : never) | null;
+    return this._subType.create(snapshot, env, options) as (T extends IType<unknown, unknown, infer I> ? I : never) | null;
   }
 
   is(value: unknown): value is (T extends IType<unknown, unknown, infer I> ? I : never) | null {
@@ -181,6 +198,10 @@ class UnionType<Types extends IAnyType[]> implements IUnionType<Types> {
   readonly _S!: Types[number] extends IType<unknown, infer S, unknown> ? S : never;
   readonly _T!: Types[number] extends IType<unknown, unknown, infer T> ? T : never;
 
+  get '~standard'(): StandardSchemaV1Props<this['_C']> {
+    return getStandardSchema(this);
+  }
+
   constructor(types: Types, options?: UnionOptions) {
     this._types = types;
     this.dispatcher = options?.dispatcher;
@@ -190,14 +211,15 @@ class UnionType<Types extends IAnyType[]> implements IUnionType<Types> {
 
   create(
     snapshot?: Types[number] extends IType<infer C, unknown, unknown> ? C : never,
-    env?: unknown
+    env?: unknown,
+    options?: ICreateOptions
   ): Types[number] extends IType<unknown, unknown, infer T> ? T : never {
     type ResultType = Types[number] extends IType<unknown, unknown, infer T> ? T : never;
     
     // Use dispatcher if available
     if (this.dispatcher && snapshot !== undefined) {
       const type = this.dispatcher(snapshot);
-      return type.create(snapshot, env) as ResultType;
+      return type.create(snapshot, env, options) as ResultType;
     }
 
     // Try each type
@@ -205,7 +227,7 @@ class UnionType<Types extends IAnyType[]> implements IUnionType<Types> {
       try {
         const result = type.validate(snapshot, []);
         if (result.valid) {
-          return type.create(snapshot, env) as ResultType;
+          return type.create(snapshot, env, options) as ResultType;
         }
       } catch {
         // Continue to next type
@@ -273,6 +295,10 @@ class LateType<T extends IAnyType> implements ILateType<T> {
   readonly _S!: T extends IType<unknown, infer S, unknown> ? S : never;
   readonly _T!: T extends IType<unknown, unknown, infer I> ? I : never;
 
+  get '~standard'(): StandardSchemaV1Props<this['_C']> {
+    return getStandardSchema(this);
+  }
+
   constructor(definition: () => T, name?: string) {
     this._definition = definition;
     this.name = name ?? 'late(...)';
@@ -287,9 +313,10 @@ class LateType<T extends IAnyType> implements ILateType<T> {
 
   create(
     snapshot?: T extends IType<infer C, unknown, unknown> ? C : never,
-    env?: unknown
+    env?: unknown,
+    options?: ICreateOptions
   ): T extends IType<unknown, unknown, infer I> ? I : never {
-    return this.getType().create(snapshot, env) as T extends IType<unknown, unknown, infer I> ? I : never;
+    return this.getType().create(snapshot, env, options) as T extends IType<unknown, unknown, infer I> ? I : never;
   }
 
   is(value: unknown): value is T extends IType<unknown, unknown, infer I> ? I : never {
@@ -328,6 +355,10 @@ class RefinementType<T extends IAnyType> implements IRefinementType<T> {
   readonly _S!: T extends IType<unknown, infer S, unknown> ? S : never;
   readonly _T!: T extends IType<unknown, unknown, infer I> ? I : never;
 
+  get '~standard'(): StandardSchemaV1Props<this['_C']> {
+    return getStandardSchema(this);
+  }
+
   constructor(
     subType: T,
     predicate: (value: unknown) => boolean,
@@ -341,9 +372,10 @@ class RefinementType<T extends IAnyType> implements IRefinementType<T> {
 
   create(
     snapshot?: T extends IType<infer C, unknown, unknown> ? C : never,
-    env?: unknown
+    env?: unknown,
+    options?: ICreateOptions
   ): T extends IType<unknown, unknown, infer I> ? I : never {
-    const instance = this._subType.create(snapshot, env);
+    const instance = this._subType.create(snapshot, env, options);
     if (!this._predicate(instance)) {
       const msg = typeof this.message === 'function' ? this.message(instance) : this.message;
       throw new Error(`[jotai-state-tree] ${msg}`);
@@ -391,6 +423,73 @@ export function refinement<T extends IAnyType>(
 // Reference Type
 // ============================================================================
 
+/**
+ * Create the proxy standing in for a reference. It owns a node holding the
+ * identifier and resolves the target within that node's tree on first access.
+ * Safe references read as empty while their target can't be resolved.
+ */
+function createReferenceProxy<T extends IAnyModelType>(
+  type: IAnyType,
+  targetType: T,
+  identifier: string | number,
+  env: unknown,
+  safe: boolean
+): Instance<T> {
+  const node = new StateTreeNode(type, identifier, env);
+  node.identifierValue = identifier;
+  let resolved: Instance<T> | null = null;
+
+  const resolve = (): Instance<T> | null => {
+    // A replaced target is looked up again by its identifier
+    if (resolved && !getStateTreeNode(resolved).$isAlive) {
+      resolved = null;
+    }
+    if (!resolved) {
+      const targetNode = resolveReferenceTarget(targetType, identifier, node);
+      if (targetNode) {
+        resolved = targetNode.getInstance() as Instance<T>;
+      }
+    }
+    return resolved;
+  };
+  const resolveOrThrow = (): Instance<T> => {
+    const target = resolve();
+    if (!target) {
+      throw new Error(
+        `[jotai-state-tree] Failed to resolve reference '${identifier}' to type '${targetType.name}'`
+      );
+    }
+    return target;
+  };
+
+  const proxy = new Proxy({} as Instance<T>, {
+    get(target, prop) {
+      if (prop === $treenode) {
+        return node;
+      }
+      assertAlive(node, 'read', String(prop));
+
+      const resolvedTarget = safe ? resolve() : resolveOrThrow();
+      return (resolvedTarget as unknown as Record<string | symbol, unknown> | null)?.[prop];
+    },
+    set(target, prop, value) {
+      if (!assertAlive(node, 'write', String(prop))) return true;
+      (resolveOrThrow() as unknown as Record<string | symbol, unknown>)[prop] = value;
+      return true;
+    },
+    has(target, prop) {
+      if (prop === $treenode) {
+        return true;
+      }
+      const resolvedTarget = resolve();
+      return resolvedTarget ? prop in (resolvedTarget as object) : false;
+    },
+  });
+
+  node.setInstance(proxy);
+  return proxy;
+}
+
 class ReferenceType<T extends IAnyModelType> implements IReferenceType<T> {
   readonly _kind = 'reference' as const;
   readonly _targetType: T;
@@ -401,6 +500,10 @@ class ReferenceType<T extends IAnyModelType> implements IReferenceType<T> {
   readonly _S!: string | number;
   readonly _T!: Instance<T>;
 
+  get '~standard'(): StandardSchemaV1Props<this['_C']> {
+    return getStandardSchema(this);
+  }
+
   constructor(targetType: T, options?: ReferenceOptions<T>) {
     this._targetType = targetType;
     this.options = options;
@@ -412,65 +515,14 @@ class ReferenceType<T extends IAnyModelType> implements IReferenceType<T> {
       throw new Error('[jotai-state-tree] Reference requires an identifier');
     }
 
-    // Create a proxy that resolves the reference lazily
-    const self = this;
-    let resolved: Instance<T> | null = null;
-
     // Try custom getter first
     if (this.options?.get) {
       const result = this.options.get(snapshot, null);
       if (result) return result;
     }
 
-    // Create reference node that will resolve
-    const node = new StateTreeNode(this, snapshot, env);
-    node.identifierValue = snapshot;
-
-    const proxy = new Proxy({} as Instance<T>, {
-      get(target, prop) {
-        // Resolve the reference
-        if (!resolved) {
-          const targetNode = resolveIdentifier(self._targetType.name, snapshot);
-          if (!targetNode) {
-            throw new Error(
-              `[jotai-state-tree] Failed to resolve reference '${snapshot}' to type '${self._targetType.name}'`
-            );
-          }
-          resolved = targetNode.getInstance() as Instance<T>;
-        }
-
-        if (prop === $treenode) {
-          return node;
-        }
-
-        return (resolved as unknown as Record<string | symbol, unknown>)[prop];
-      },
-      set(target, prop, value) {
-        if (!resolved) {
-          const targetNode = resolveIdentifier(self._targetType.name, snapshot);
-          if (!targetNode) {
-            throw new Error(
-              `[jotai-state-tree] Failed to resolve reference '${snapshot}' to type '${self._targetType.name}'`
-            );
-          }
-          resolved = targetNode.getInstance() as Instance<T>;
-        }
-        (resolved as unknown as Record<string | symbol, unknown>)[prop] = value;
-        return true;
-      },
-      has(target, prop) {
-        if (!resolved) {
-          const targetNode = resolveIdentifier(self._targetType.name, snapshot);
-          if (targetNode) {
-            resolved = targetNode.getInstance() as Instance<T>;
-          }
-        }
-        return resolved ? prop in (resolved as object) : false;
-      },
-    });
-
-    node.setInstance(proxy);
-    return proxy;
+    // Create a proxy that resolves the reference lazily
+    return createReferenceProxy(this, this._targetType, snapshot, env, false);
   }
 
   is(value: unknown): value is Instance<T> {
@@ -515,6 +567,10 @@ class SafeReferenceType<T extends IAnyModelType> implements ISafeReferenceType<T
   readonly _S!: string | number | undefined;
   readonly _T!: Instance<T> | undefined;
 
+  get '~standard'(): StandardSchemaV1Props<this['_C']> {
+    return getStandardSchema(this);
+  }
+
   constructor(
     targetType: T,
     options?: ReferenceOptions<T> & { acceptsUndefined?: boolean }
@@ -529,16 +585,8 @@ class SafeReferenceType<T extends IAnyModelType> implements ISafeReferenceType<T
       return undefined;
     }
 
-    const targetNode = resolveIdentifier(this._targetType.name, snapshot);
-    if (!targetNode) {
-      if (this.options?.onInvalidated) {
-        // Let caller handle invalid reference
-        return undefined;
-      }
-      return undefined;
-    }
-
-    return targetNode.getInstance() as Instance<T>;
+    // Resolved lazily within the owning tree, like types.reference
+    return createReferenceProxy(this, this._targetType, snapshot, env, true);
   }
 
   is(value: unknown): value is Instance<T> | undefined {
@@ -598,11 +646,15 @@ export function snapshotProcessor<
     _S: undefined as unknown as CustomS,
     _T: undefined as unknown as ResultType,
 
-    create(snapshot?: CustomC, env?: unknown): ResultType {
+    get '~standard'() {
+      return getStandardSchema(this);
+    },
+
+    create(snapshot?: CustomC, env?: unknown, options?: ICreateOptions): ResultType {
       const processed = processors.preProcessor
         ? processors.preProcessor(snapshot as CustomC)
         : snapshot;
-      return type.create(processed, env) as ResultType;
+      return type.create(processed, env, options) as ResultType;
     },
 
     is(value: unknown): value is ResultType {